@@ -0,0 +1,561 @@
+/**
+ * Context-Aware AI Agent - interactive chat loop
+ * Implements custom context management with configurable token limit (started by index.ts)
+ */
+
+import * as readline from 'readline';
+import { run } from '@openai/agents';
+import { KnowledgeBaseService } from './services/knowledge-base.js';
+import { RetrievalService } from './services/retrieval.js';
+import { ContextManager } from './services/context-manager.js';
+import { CitationService } from './services/citation.js';
+import { QueryRewriter } from './services/query-rewriter.js';
+import { SessionStore } from './services/session-store.js';
+import { MemoryService } from './services/memory.js';
+import { createMemoryExtractor } from './services/memory-extraction.js';
+import { MemoryRanker } from './services/memory-ranker.js';
+import { createAgent } from './services/agent.js';
+import { KnowledgeFilter, MemoryEntry, Message, RankedMemory } from './types/index.js';
+import { CONFIG, isMemoryCategory } from './config.js';
+
+/**
+ * Arguments of a command ("/forget mem_001" → "mem_001"), or null when the input is not that command
+ * (the whole first word is compared: "/forgetful" is not "/forget")
+ */
+export function commandArgs(input: string, command: string): string | null {
+  const [first = '', ...rest] = input.trim().split(/\s+/);
+  return first.toLowerCase() === command ? rest.join(' ') : null;
+}
+
+/**
+ * Delete a memory by id, or a match of a description after confirmation (a choice when several match)
+ * Superseded entries match too (shown as such), so an older claim can be forgotten explicitly
+ * @param ask Prompts the user and resolves with the answer
+ * @returns The forgotten memory, null when nothing matched or the memories were kept
+ */
+export async function forgetMemory(
+  memoryService: MemoryService,
+  target: string,
+  ask: (query: string) => Promise<string>
+): Promise<MemoryEntry | null> {
+  let memory = memoryService.getMemoryById(target);
+  if (!memory) {
+    const matches = memoryService.findMemories(target, true);
+    const describe = (entry: MemoryEntry) => `${entry.id} [${entry.category}] ${entry.content}${entry.supersededBy ? ' (superseded)' : ''}`;
+    if (matches.length === 0) {
+      console.log(`\nNo memory matches "${target}" (see /memories)\n`);
+      return null;
+    }
+    if (matches.length === 1) {
+      console.log(`\n${describe(matches[0])}`);
+      const answer = await ask('Forget this memory? (y/n) ');
+      memory = answer.trim().toLowerCase() === 'y' ? matches[0] : undefined;
+    } else {
+      console.log(`\n${matches.length} memories match "${target}":`);
+      matches.forEach((match, i) => console.log(`   ${i + 1}. ${describe(match)}`));
+      const answer = await ask(`Forget which one? (1-${matches.length}, empty to keep them all) `);
+      memory = matches[Number(answer.trim()) - 1];
+    }
+    if (!memory) {
+      console.log('Kept\n');
+      return null;
+    }
+  }
+
+  memoryService.deleteMemory(memory.id);
+  console.log(`\n🗑️  Forgot ${memory.id}: ${memory.content}\n`);
+  return memory;
+}
+
+export async function main() {
+  // Validate environment
+  if (!process.env.OPENAI_API_KEY) {
+    console.error('Error: OPENAI_API_KEY not found in environment variables');
+    console.error('Please create a .env file with your OpenAI API key');
+    process.exit(1);
+  }
+
+  console.log('Context-Aware AI Agent');
+  console.log('=====================');
+  console.log(`Token Budget: ${CONFIG.MAX_TOKENS} tokens${CONFIG.PROFILE ? ` (profile: ${CONFIG.PROFILE})` : ''}`);
+  console.log(`Compression Strategy: ${CONFIG.COMPRESSION_STRATEGY} (from env: ${process.env.COMPRESSION_STRATEGY || 'not set'})`);
+  console.log(`Retrieval Mode: ${CONFIG.RETRIEVAL_MODE} (query rewrite: ${CONFIG.QUERY_REWRITE_MODE})`);
+  console.log(`Memory Extraction: ${CONFIG.MEMORY_EXTRACTION_MODE} (extractor: ${CONFIG.MEMORY_EXTRACTOR})`);
+  console.log('Commands: "exit" to quit, "/save" to save conversation, "/reload" to reload the knowledge base,');
+  console.log('          "/filter [tags=a,b audience=x source=prefix updatedAfter=date | clear]" to restrict knowledge,');
+  console.log('          "/sessions" to list saved sessions, "/resume <id>" to continue one, "/new" to start over,');
+  console.log('          "/memories [category]" to audit stored memories, "/remember <category> <text>" to add one,');
+  console.log('          "/edit <id> [text]" to change one, "/forget <id|description>" (or "forget that ...") to delete');
+  console.log();
+
+  // Active knowledge filter (invalid KNOWLEDGE_FILTER is a startup error)
+  let knowledgeFilter: KnowledgeFilter = RetrievalService.parseFilter(CONFIG.KNOWLEDGE_FILTER);
+  if (CONFIG.KNOWLEDGE_FILTER) {
+    console.log(`Knowledge Filter: ${RetrievalService.formatFilter(knowledgeFilter)}`);
+  }
+
+  // Initialize services
+  const knowledgeBase = new KnowledgeBaseService(CONFIG.DATA_PATH);
+  const retrievalService = new RetrievalService(knowledgeBase.getAllPassages());
+
+  // Keep retrieval in sync with knowledge base reloads (file watcher or /reload)
+  knowledgeBase.onReload(() => retrievalService.rebuild(knowledgeBase.getAllPassages()));
+  if (CONFIG.KNOWLEDGE_WATCH) {
+    knowledgeBase.watch();
+  }
+  const contextManager = new ContextManager();
+  const citationService = new CitationService(id => knowledgeBase.getEntryById(id));
+  const queryRewriter = new QueryRewriter();
+  const memoryService = new MemoryService('./memory');
+  const memoryExtraction = createMemoryExtractor();
+  const memoryRanker = new MemoryRanker();
+
+  console.log(`Loaded ${memoryService.getCount()} memories from storage`);
+  console.log();
+
+  // Conversation state (persisted as a session after every turn)
+  const sessionStore = new SessionStore();
+  let session = sessionStore.create();
+  let conversationHistory: Message[] = session.messages;
+  let conversationLog: string[] = []; // Track what user sees on screen
+  console.log(`Session: ${session.id}`);
+
+  // Setup readline interface
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  // EOF (Ctrl-D, end of piped input) or Ctrl-C closes the interface: a pending question gets an empty answer
+  // and the chat loop ends as with "exit", so buffered exchanges are still extracted
+  let inputClosed = false;
+  let answerOnClose: (() => void) | null = null;
+  rl.on('close', () => {
+    inputClosed = true;
+    answerOnClose?.();
+  });
+
+  const askQuestion = (query: string): Promise<string> => {
+    if (inputClosed) {
+      return Promise.resolve('');
+    }
+    return new Promise(resolve => {
+      answerOnClose = () => resolve('');
+      rl.question(query, answer => {
+        answerOnClose = null;
+        resolve(answer);
+      });
+    });
+  };
+
+  // Batch mode: exchanges waiting for extraction (analyzed together every MEMORY_BATCH_TURNS turns, at /save and on exit or EOF)
+  let pendingExchanges: Message[] = [];
+  let pendingTurns = 0;
+
+  const flushMemoryBatch = async (): Promise<void> => {
+    if (pendingTurns === 0) {
+      return;
+    }
+    const window = pendingExchanges;
+    const turns = pendingTurns;
+    pendingExchanges = [];
+    pendingTurns = 0;
+
+    // The turn before the window, so a reply to it ("yes, let's do that") keeps its meaning across batches
+    const start = conversationHistory.indexOf(window[0]);
+    const context = start > 0 ? conversationHistory.slice(Math.max(start - 2, 0), start) : [];
+
+    try {
+      const extracted = await memoryExtraction.extractMemories(window, context);
+      // Same consolidation path as realtime saves (duplicates merged, contradictions superseded)
+      for (const memory of extracted) {
+        memoryService.saveMemory(memory.category, memory.content);
+      }
+      if (process.env.DEBUG === 'true') {
+        console.log(`\n[DEBUG] Batch extraction over ${turns} turns: ${extracted.length} memories`);
+        extracted.forEach(memory => console.log(`[DEBUG]    [${memory.category}] ${memory.content}`));
+      }
+    } catch (error) {
+      console.error('Memory extraction failed:', error);
+    }
+  };
+
+  // Chat loop
+  while (true) {
+    try {
+      // Get user input
+      const userInput = await askQuestion('\nYou: ');
+
+      if (inputClosed || userInput.toLowerCase() === 'exit') {
+        await flushMemoryBatch();
+        console.log('\nGoodbye!');
+        break;
+      }
+
+      // Handle /reload command
+      if (userInput.toLowerCase() === '/reload') {
+        try {
+          const diff = knowledgeBase.reload();
+          console.log(`\n🔄 Knowledge base reloaded: ${knowledgeBase.getAllEntries().length} entries`);
+          console.log(`   Added:   ${diff.added.length > 0 ? diff.added.join(', ') : '(none)'}`);
+          console.log(`   Removed: ${diff.removed.length > 0 ? diff.removed.join(', ') : '(none)'}`);
+          console.log(`   Changed: ${diff.changed.length > 0 ? diff.changed.join(', ') : '(none)'}\n`);
+        } catch (error) {
+          console.error(`\n❌ Failed to reload knowledge base: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      // Handle /filter command
+      const args = commandArgs(userInput, '/filter');
+      if (args !== null) {
+        try {
+          if (args.toLowerCase() === 'clear') {
+            knowledgeFilter = {};
+          } else if (args) {
+            knowledgeFilter = RetrievalService.parseFilter(args);
+          }
+          console.log(`\n🔎 Knowledge filter: ${RetrievalService.formatFilter(knowledgeFilter)}\n`);
+        } catch (error) {
+          console.error(`\n❌ Invalid filter: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      // Handle /memories command (audit: active entries with merged duplicates and superseded entries)
+      const category = commandArgs(userInput, '/memories');
+      if (category !== null) {
+        const [summary, ...lines] = memoryService.formatAudit(category || undefined);
+        console.log(`\n🧠 ${summary}`);
+        lines.forEach(line => console.log(line));
+        console.log();
+        continue;
+      }
+
+      // Handle /remember command (consolidated like extracted memories)
+      const rememberArgs = commandArgs(userInput, '/remember');
+      if (rememberArgs !== null) {
+        const [category = '', ...words] = rememberArgs.split(/\s+/);
+        const content = words.join(' ');
+        if (!isMemoryCategory(category) || !content) {
+          console.log(`\nUsage: /remember <category> <text> (categories: ${CONFIG.MEMORY_CATEGORIES.join(', ')})\n`);
+          continue;
+        }
+        try {
+          const memory = memoryService.saveMemory(category, content);
+          console.log(`\n💾 Remembered as ${memory.id} [${memory.category}] ${memory.content}\n`);
+        } catch (error) {
+          console.error(`\n❌ Failed to save memory: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      // Handle /edit command (prompts for the new text when it is not given)
+      const editArgs = commandArgs(userInput, '/edit');
+      if (editArgs !== null) {
+        const [id = '', ...words] = editArgs.split(/\s+/);
+        const memory = memoryService.getMemoryById(id);
+        if (!memory) {
+          console.log(`\n${id ? `Unknown memory "${id}"` : 'Usage: /edit <id> [text]'} (see /memories)\n`);
+          continue;
+        }
+        let content = words.join(' ');
+        if (!content) {
+          console.log(`\n${memory.id} [${memory.category}] ${memory.content}`);
+          content = await askQuestion('New text (empty to cancel): ');
+        }
+        if (!content.trim()) {
+          console.log('Unchanged\n');
+          continue;
+        }
+        try {
+          const updated = memoryService.updateMemory(memory.id, { content });
+          console.log(`\n✏️  ${updated.id} [${updated.category}] ${updated.content}\n`);
+        } catch (error) {
+          console.error(`\n❌ Failed to update memory: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      // Handle /forget command and natural-language requests ("forget that I work in healthcare");
+      // a request that matches no memory ("forget about it, ...") goes to the agent as usual
+      const forgetRequest = MemoryService.parseForgetRequest(userInput);
+      const forgetTarget = commandArgs(userInput, '/forget') ??
+        (forgetRequest && memoryService.findMemories(forgetRequest, true).length > 0 ? forgetRequest : null);
+      if (forgetTarget !== null) {
+        if (!forgetTarget) {
+          console.log('\nUsage: /forget <id|description> (see /memories)\n');
+          continue;
+        }
+        try {
+          await forgetMemory(memoryService, forgetTarget, askQuestion);
+        } catch (error) {
+          console.error(`\n❌ Failed to forget memory: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      // Handle /sessions command
+      if (userInput.toLowerCase() === '/sessions') {
+        const sessions = sessionStore.list();
+        if (sessions.length === 0) {
+          console.log('\nNo saved sessions\n');
+        } else {
+          console.log('\nSaved sessions (most recent first):');
+          for (const info of sessions) {
+            const current = info.id === session.id ? ' (current)' : '';
+            console.log(`   ${info.id}${current} - ${info.turns} turns - "${info.preview}"`);
+          }
+          console.log();
+        }
+        continue;
+      }
+
+      // Handle /resume command
+      const id = commandArgs(userInput, '/resume');
+      if (id !== null) {
+        if (!id) {
+          console.log('\nUsage: /resume <session id> (see /sessions)\n');
+          continue;
+        }
+        try {
+          // Buffered exchanges belong to the session being left
+          await flushMemoryBatch();
+          session = sessionStore.load(id);
+          conversationHistory = session.messages;
+          // Restoring the rolling summary makes the old messages compress exactly as before
+          contextManager.importSummaryState(session.summary);
+          conversationLog = conversationHistory
+            .filter(message => message.role !== 'system')
+            .map(message => `## ${message.role === 'user' ? 'You' : 'Assistant'}\n${message.content}\n`);
+
+          console.log(`\n📂 Resumed ${session.id} (${session.turns.length} turns)`);
+          for (const message of conversationHistory.slice(-4)) {
+            console.log(`   ${message.role}: ${message.content.replace(/\n/g, ' ').slice(0, 100)}`);
+          }
+          console.log();
+        } catch (error) {
+          console.error(`\n❌ Failed to resume session: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      // Handle /new command
+      if (userInput.toLowerCase() === '/new') {
+        await flushMemoryBatch();
+        session = sessionStore.create();
+        conversationHistory = session.messages;
+        contextManager.importSummaryState(null);
+        conversationLog = [];
+        console.log(`\n🆕 New session: ${session.id}\n`);
+        continue;
+      }
+
+      // Handle /save command
+      if (userInput.toLowerCase() === '/save') {
+        await flushMemoryBatch();
+        try {
+          const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+          const filename = `saved_conversations/conversation_${timestamp}.md`;
+          const fs = await import('fs');
+          fs.mkdirSync('saved_conversations', { recursive: true });
+
+          const content = [
+            '# Conversation Log',
+            `**Saved:** ${new Date().toLocaleString()}`,
+            `**Debug Mode:** ${process.env.DEBUG === 'true' ? 'ON' : 'OFF'}`,
+            '',
+            '---',
+            '',
+            ...conversationLog
+          ].join('\n');
+
+          fs.writeFileSync(filename, content);
+          console.log(`\n✅ Conversation saved to: ${filename}\n`);
+        } catch (error) {
+          console.error(`\n❌ Failed to save conversation: ${error instanceof Error ? error.message : error}\n`);
+        }
+        continue;
+      }
+
+      if (!userInput.trim()) {
+        continue;
+      }
+
+      // Log user input
+      conversationLog.push(`## You\n${userInput}\n`);
+
+      // Add user message to history
+      conversationHistory.push({
+        role: 'user',
+        content: userInput,
+        timestamp: Date.now()
+      });
+
+      // Follow-ups are rewritten into standalone queries before retrieval
+      const retrievalQuery = await queryRewriter.rewrite(userInput, conversationHistory);
+
+      // SELECT: Rank memories against the query (classified categories are a boost, not a filter)
+      let relevantMemories: RankedMemory[] = [];
+      if (CONFIG.MEMORY_EXTRACTION_MODE !== 'disabled') {
+        const categories = await memoryExtraction.classifyQuery(userInput);
+        relevantMemories = memoryRanker.rank(retrievalQuery.rewritten, memoryService.getActiveMemories(), categories);
+      }
+
+      // SELECT: Retrieve relevant knowledge
+      const relevantKnowledge = retrievalService.retrieve(retrievalQuery.rewritten, CONFIG.TOP_K_RETRIEVAL, knowledgeFilter);
+
+      // COMPRESS: Build context with token management (supports pruning or summarization)
+      const context = await contextManager.buildContext(
+        conversationHistory,
+        relevantMemories,
+        relevantKnowledge,
+        userInput,
+        retrievalQuery.rewritten
+      );
+
+      // Display token usage
+      const tokenInfo = `[${context.totalTokens}/${CONFIG.MAX_TOKENS} tokens]`;
+      console.log(tokenInfo);
+      conversationLog.push(`**Tokens:** ${tokenInfo}\n`);
+
+      // Save debug breakdown if available
+      if (context.debugInfo) {
+        conversationLog.push('```\n' + context.debugInfo + '```\n');
+      }
+
+      // Create agent; the whole context is passed as input items
+      // (system prompt, memory, knowledge, summaries and turns rendered and counted by the context manager)
+      const contextualAgent = createAgent();
+
+      // Run agent with retry logic for API errors
+      let assistantResponse: string | undefined;
+      let retries = 0;
+      const maxRetries = 3;
+
+      while (retries <= maxRetries) {
+        try {
+          const result = await run(contextualAgent, context.input);
+          assistantResponse = result.finalOutput || 'No response generated';
+          break; // Success, exit retry loop
+        } catch (apiError: any) {
+          const isRetryable = apiError?.status === 503 ||
+                             apiError?.status === 429 ||
+                             apiError?.code === 'ECONNRESET' ||
+                             apiError?.message?.includes('503') ||
+                             apiError?.message?.includes('timeout');
+
+          if (isRetryable && retries < maxRetries) {
+            retries++;
+            const waitTime = Math.min(1000 * Math.pow(2, retries - 1), 10000); // Exponential backoff, max 10s
+
+            if (process.env.DEBUG === 'true') {
+              console.log(`\n[DEBUG] API error (${apiError?.status || 'unknown'}), retry ${retries}/${maxRetries} in ${waitTime}ms...`);
+            } else {
+              console.log(`\n⏳ Temporary issue, retrying...`);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, waitTime));
+            continue;
+          } else {
+            // Non-retryable error or max retries exceeded
+            throw apiError;
+          }
+        }
+      }
+
+      // Only add to history if we got a response
+      if (assistantResponse) {
+        const assistantMessage: Message = {
+          role: 'assistant',
+          content: assistantResponse,
+          timestamp: Date.now()
+        };
+        conversationHistory.push(assistantMessage);
+
+        console.log(`\nAssistant: ${assistantResponse}`);
+        conversationLog.push(`## Assistant\n${assistantResponse}\n`);
+
+        // Persist the turn with the context that produced it
+        session.turns.push({
+          timestamp: assistantMessage.timestamp,
+          query: userInput,
+          retrievalQuery: retrievalQuery.rewritten,
+          knowledgeIds: context.knowledgeEntries.map(entry => entry.id),
+          memoryIds: context.memoryEntries.map(entry => entry.id),
+          historyMessages: context.conversationHistory.length,
+          summarized: context.conversationHistory.some(message => message.role === 'system'),
+          totalTokens: context.totalTokens
+        });
+        session.summary = contextManager.exportSummaryState();
+        try {
+          sessionStore.save(session);
+        } catch (error) {
+          console.error('Failed to save session:', error);
+        }
+
+        // Verify citations against the knowledge that was actually in the context
+        const citations = citationService.verify(assistantResponse, context.knowledgeEntries);
+        const sourcesFooter = citationService.formatFooter(citations);
+        if (sourcesFooter) {
+          console.log(`\n${sourcesFooter}`);
+          conversationLog.push('```\n' + sourcesFooter + '\n```\n');
+        }
+
+        // Extract memory from this exchange (realtime mode)
+        if (CONFIG.MEMORY_EXTRACTION_MODE === 'realtime') {
+          try {
+            const userMessage = conversationHistory[conversationHistory.length - 2]; // Get the user message that triggered this response
+            const extracted = await memoryExtraction.extractMemory(userMessage, assistantMessage);
+
+            if (extracted) {
+              memoryService.saveMemory(extracted.category, extracted.content);
+              if (process.env.DEBUG === 'true') {
+                console.log(`\n[DEBUG] Memory extracted: [${extracted.category}] ${extracted.content}`);
+              }
+            }
+          } catch (error) {
+            console.error('Memory extraction failed:', error);
+          }
+        }
+
+        // Buffer this exchange (batch mode), extracting once the window is full
+        if (CONFIG.MEMORY_EXTRACTION_MODE === 'batch') {
+          pendingExchanges.push(conversationHistory[conversationHistory.length - 2], assistantMessage);
+          pendingTurns++;
+          if (pendingTurns >= CONFIG.MEMORY_BATCH_TURNS) {
+            await flushMemoryBatch();
+          }
+        }
+      }
+
+    } catch (error: any) {
+      // User-friendly error messages
+      let errorMsg = '';
+      if (error?.status === 401 || error?.message?.includes('API key')) {
+        errorMsg = '❌ Error: Invalid API key. Please check your OPENAI_API_KEY in .env file';
+      } else if (error?.status === 429) {
+        errorMsg = '❌ Error: Rate limit exceeded. Please wait a moment and try again.';
+      } else if (error?.status === 503) {
+        errorMsg = '❌ Error: OpenAI service temporarily unavailable. Please try again in a moment.';
+      } else if (error?.code === 'ENOTFOUND' || error?.code === 'ECONNREFUSED') {
+        errorMsg = '❌ Error: Cannot connect to OpenAI. Please check your internet connection.';
+      } else {
+        errorMsg = '❌ Error: Unable to get response from AI';
+        if (process.env.DEBUG === 'true') {
+          errorMsg += `\n    Details: ${error?.message || error}`;
+          if (error?.stack) {
+            errorMsg += `\n    Stack: ${error.stack}`;
+          }
+        } else {
+          errorMsg += '\n    (Run with DEBUG=true for more details)';
+        }
+      }
+      console.error('\n' + errorMsg);
+      conversationLog.push(`## Error\n${errorMsg}\n`);
+    }
+  }
+
+  rl.close();
+  knowledgeBase.close();
+}
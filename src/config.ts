@@ -1,42 +1,324 @@
 /**
  * Configuration constants
+ * Values come from environment variables, then from the named profile (CONFIG_PROFILE), then from the defaults;
+ * everything is validated at startup
  */
 
 import { config } from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { z } from 'zod';
 
 // Load environment variables before reading them
 config();
 
-const maxTokens = parseInt(process.env.MAX_TOKENS || '1500', 10);
-const summaryMaxTokensPct = parseInt(process.env.SUMMARY_MAX_TOKENS_PCT || '33', 10);
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const percent = (fallback: number) => z.coerce.number().int().min(0).max(100).default(fallback);
+const positiveInt = (fallback: number) => z.coerce.number().int().positive().default(fallback);
+const nonNegativeInt = (fallback: number) => z.coerce.number().int().min(0).default(fallback);
+const nonNegative = (fallback: number) => z.coerce.number().min(0).default(fallback);
+const flag = (fallback: boolean) => z.enum(['true', 'false']).default(fallback ? 'true' : 'false').transform(value => value === 'true');
+
+const BUDGET_SECTIONS = ['memory', 'knowledge', 'conversation'] as const;
+const TRUNCATION_TARGETS = ['history', 'knowledge', 'memory', 'query'] as const;
+// Names registered by CompressionStrategyRegistry.createDefault()
+export const COMPRESSION_STRATEGIES = ['prune', 'summarize', 'extractive', 'relevance'] as const;
+
+/**
+ * Settings by environment variable name (all values are read as strings)
+ */
+export const ConfigSchema = z.object({
+  KNOWLEDGE_PATH: z.string().default('./data/tellia_assessment_demo.json'),
+  MAX_TOKENS: positiveInt(1500),
+  TOP_K_RETRIEVAL: positiveInt(3),
+  KNOWLEDGE_WATCH: flag(true),
+  CHUNK_MAX_TOKENS: positiveInt(120),
+  CHUNK_OVERLAP_TOKENS: nonNegativeInt(20),
+  RETRIEVAL_TITLE_WEIGHT: nonNegative(3),
+  RETRIEVAL_CONTENT_WEIGHT: nonNegative(1),
+  RETRIEVAL_MIN_SCORE: nonNegative(1.5),
+  RETRIEVAL_MODE: z.enum(['keyword', 'ngram', 'hybrid']).default('keyword'),
+  NGRAM_MIN_SIMILARITY: z.coerce.number().min(-1).max(1).default(0.2),
+  QUERY_REWRITE_MODE: z.enum(['rules', 'llm', 'disabled']).default('rules'),
+  QUERY_REWRITE_HISTORY_TURNS: positiveInt(2),
+  KNOWLEDGE_FILTER: z.string().default(''),
+  VECTOR_INDEX_PATH: z.string().optional(),
+  SESSIONS_PATH: z.string().default('./sessions'),
+  AGENT_MODEL: z.string().default('gpt-4o-mini'),
+  TOKENIZER: z.enum(['bpe', 'heuristic']).default('bpe'),
+  TOKENIZER_VOCAB_DIR: z.string().default('./data/tokenizers'),
+  BUDGET_SAFETY_MARGIN_PCT: percent(7),
+  BUDGET_SYSTEM_PROMPT_PCT: percent(10),
+  BUDGET_MEMORY_PCT: percent(15),
+  BUDGET_KNOWLEDGE_PCT: percent(28),
+  BUDGET_CONVERSATION_PCT: percent(40),
+  BUDGET_REBALANCE: flag(true),
+  BUDGET_PRIORITY: z.string().default('memory,knowledge,conversation')
+    .transform(value => value.split(',').map(section => section.trim()))
+    .pipe(z.array(z.enum(BUDGET_SECTIONS))),
+  BUDGET_MEMORY_MIN_PCT: percent(5),
+  BUDGET_MEMORY_MAX_PCT: percent(25),
+  BUDGET_KNOWLEDGE_MIN_PCT: percent(10),
+  BUDGET_KNOWLEDGE_MAX_PCT: percent(50),
+  BUDGET_CONVERSATION_MIN_PCT: percent(15),
+  BUDGET_CONVERSATION_MAX_PCT: percent(70),
+  // A registered name or a chain of them ("summarize+prune")
+  COMPRESSION_STRATEGY: z.string().default('prune').superRefine((value, ctx) => {
+    const unknown = value.split('+').map(step => step.trim())
+      .filter(step => !(COMPRESSION_STRATEGIES as readonly string[]).includes(step));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Unknown strategy "${unknown.join('", "')}" (expected ${COMPRESSION_STRATEGIES.join(', ')} or a chain such as summarize+prune)`
+      });
+    }
+  }),
+  SUMMARY_MAX_TOKENS_PCT: percent(33),
+  ALLOW_SUMMARIZATION_FALLBACK: flag(true),
+  TIER_RECENT_PCT: percent(60),
+  TIER_SEGMENT_PCT: percent(25),
+  TIER_LONG_RANGE_PCT: percent(15),
+  SUMMARY_LOW_WATERMARK_PCT: percent(60),
+  MIN_RECENT_MESSAGES: nonNegativeInt(0),
+  TRUNCATION_PRIORITY: z.string().default('history,knowledge,memory,query')
+    .transform(value => value.split(',').map(target => target.trim()))
+    .pipe(z.array(z.enum(TRUNCATION_TARGETS))),
+  MEMORY_EXTRACTION_MODE: z.enum(['realtime', 'batch', 'disabled']).default('disabled'),
+  MEMORY_EXTRACTOR: z.enum(['llm', 'rules']).default('llm'),
+  MEMORY_BATCH_TURNS: positiveInt(5),
+  MEMORY_CONSOLIDATION: flag(true),
+  MEMORY_DUPLICATE_SIMILARITY: z.coerce.number().min(0).max(1).default(0.75),
+  MEMORY_CONFLICT_SIMILARITY: z.coerce.number().min(0).max(1).default(0.5),
+  MEMORY_SIMILARITY: z.enum(['lexical', 'ngram']).default('lexical'),
+  MEMORY_MIN_RELEVANCE: z.coerce.number().min(0).max(1).default(0.15),
+  MEMORY_RELEVANCE_WEIGHT: nonNegative(0.6),
+  MEMORY_RECENCY_WEIGHT: nonNegative(0.2),
+  MEMORY_IMPORTANCE_WEIGHT: nonNegative(0.2),
+  MEMORY_CATEGORY_BOOST: nonNegative(0.2),
+  MEMORY_RECENCY_HALF_LIFE_DAYS: z.coerce.number().positive().default(30)
+}).superRefine((settings, ctx) => {
+  const budgetTotal = settings.BUDGET_SAFETY_MARGIN_PCT + settings.BUDGET_SYSTEM_PROMPT_PCT +
+    settings.BUDGET_MEMORY_PCT + settings.BUDGET_KNOWLEDGE_PCT + settings.BUDGET_CONVERSATION_PCT;
+  if (budgetTotal !== 100) {
+    ctx.addIssue({ code: 'custom', path: ['BUDGET_*_PCT'], message: `Budget percentages must add up to 100 (got ${budgetTotal})` });
+  }
+
+  const tierTotal = settings.TIER_RECENT_PCT + settings.TIER_SEGMENT_PCT + settings.TIER_LONG_RANGE_PCT;
+  if (tierTotal !== 100) {
+    ctx.addIssue({ code: 'custom', path: ['TIER_*_PCT'], message: `Tier percentages must add up to 100 (got ${tierTotal})` });
+  }
+
+  for (const section of ['MEMORY', 'KNOWLEDGE', 'CONVERSATION'] as const) {
+    const min = settings[`BUDGET_${section}_MIN_PCT`];
+    const max = settings[`BUDGET_${section}_MAX_PCT`];
+    if (min > max) {
+      ctx.addIssue({ code: 'custom', path: [`BUDGET_${section}_MIN_PCT`], message: `Minimum (${min}) is above the maximum (${max})` });
+    }
+  }
+
+  if (settings.CHUNK_OVERLAP_TOKENS >= settings.CHUNK_MAX_TOKENS) {
+    ctx.addIssue({ code: 'custom', path: ['CHUNK_OVERLAP_TOKENS'], message: `Must be smaller than CHUNK_MAX_TOKENS (${settings.CHUNK_MAX_TOKENS})` });
+  }
+
+  if (settings.MEMORY_CONFLICT_SIMILARITY > settings.MEMORY_DUPLICATE_SIMILARITY) {
+    ctx.addIssue({ code: 'custom', path: ['MEMORY_CONFLICT_SIMILARITY'], message: `Must not exceed MEMORY_DUPLICATE_SIMILARITY (${settings.MEMORY_DUPLICATE_SIMILARITY})` });
+  }
+});
+
+/**
+ * Settings of a named profile from the profiles file (environment variables still take precedence)
+ */
+function loadProfile(name: string, path: string): Record<string, string> {
+  if (!existsSync(path)) {
+    throw new ConfigError(`CONFIG_PROFILE is "${name}" but the profiles file ${path} does not exist`);
+  }
+
+  let profiles: Record<string, Record<string, unknown>>;
+  try {
+    profiles = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Cannot parse ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const profile = profiles[name];
+  if (!profile || typeof profile !== 'object') {
+    throw new ConfigError(`Unknown profile "${name}" in ${path} (available: ${Object.keys(profiles).join(', ')})`);
+  }
+
+  const known = Object.keys(ConfigSchema.shape);
+  const settings: Record<string, string> = {};
+  for (const [key, value] of Object.entries(profile)) {
+    if (key === 'description') {
+      continue;
+    }
+    if (!known.includes(key)) {
+      throw new ConfigError(`Unknown setting "${key}" in profile "${name}" (${path})`);
+    }
+    settings[key] = String(value);
+  }
+  return settings;
+}
+
+/**
+ * Validate the merged settings; every invalid value is reported at once (sums and ranges once the values are valid)
+ */
+function parseSettings(raw: Record<string, string | undefined>, source: string): z.output<typeof ConfigSchema> {
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => {
+      const key = String(issue.path[0] ?? 'config');
+      const value = raw[key] !== undefined ? ` (got "${raw[key]}")` : '';
+      return `  - ${key}: ${issue.message}${value}`;
+    });
+    throw new ConfigError(`Invalid configuration (${source}):\n${problems.join('\n')}`);
+  }
+  return result.data;
+}
+
+const profileName = process.env.CONFIG_PROFILE || null;
+const profilesPath = process.env.CONFIG_PROFILES_PATH || './config.profiles.json';
+const profile = profileName ? loadProfile(profileName, profilesPath) : {};
+
+// Environment variables override the profile (empty variables count as unset)
+const raw: Record<string, string | undefined> = {};
+for (const key of Object.keys(ConfigSchema.shape)) {
+  raw[key] = process.env[key] || profile[key];
+}
+const settings = parseSettings(raw, profileName ? `profile "${profileName}" + environment` : 'environment');
+
+const maxTokens = settings.MAX_TOKENS;
+const summaryMaxTokensPct = settings.SUMMARY_MAX_TOKENS_PCT;
+
+// A summary larger than the whole conversation budget would be dropped when the history is assembled
+const conversationTokens = Math.floor(maxTokens * settings.BUDGET_CONVERSATION_PCT / 100);
+const summaryMaxTokens = Math.floor(maxTokens * summaryMaxTokensPct / 100);
+if (summaryMaxTokens > conversationTokens) {
+  console.warn(`⚠️  SUMMARY_MAX_TOKENS (${summaryMaxTokens}) exceeds the conversation budget (${conversationTokens} tokens); ` +
+    `set SUMMARY_MAX_TOKENS_PCT to at most BUDGET_CONVERSATION_PCT (${settings.BUDGET_CONVERSATION_PCT})`);
+}
+
+// Knowledge file or folder (folders are loaded recursively)
+const dataPath = settings.KNOWLEDGE_PATH;
 
 export const CONFIG = {
-  DATA_PATH: './data/tellia_assessment_demo.json',
+  // Named profile the settings were loaded from (null: environment and defaults only)
+  PROFILE: profileName,
+
+  DATA_PATH: dataPath,
   MAX_TOKENS: maxTokens,
-  TOP_K_RETRIEVAL: parseInt(process.env.TOP_K_RETRIEVAL || '3', 10),
+  TOP_K_RETRIEVAL: settings.TOP_K_RETRIEVAL,
+
+  // Reload the knowledge base when its source files change
+  KNOWLEDGE_WATCH: settings.KNOWLEDGE_WATCH,
+
+  // Knowledge chunking: entries longer than CHUNK_MAX_TOKENS are split into overlapping passages
+  CHUNK_MAX_TOKENS: settings.CHUNK_MAX_TOKENS,
+  CHUNK_OVERLAP_TOKENS: settings.CHUNK_OVERLAP_TOKENS,
+
+  // BM25F retrieval: field weights and minimum score for an entry to be returned
+  RETRIEVAL_TITLE_WEIGHT: settings.RETRIEVAL_TITLE_WEIGHT,
+  RETRIEVAL_CONTENT_WEIGHT: settings.RETRIEVAL_CONTENT_WEIGHT,
+  RETRIEVAL_MIN_SCORE: settings.RETRIEVAL_MIN_SCORE,
+
+  // Retrieval mode: 'keyword' (BM25F), 'ngram' (hashed n-gram vectors: spelling variants, not paraphrases)
+  // or 'hybrid' (reciprocal rank fusion of both)
+  RETRIEVAL_MODE: settings.RETRIEVAL_MODE,
+  NGRAM_MIN_SIMILARITY: settings.NGRAM_MIN_SIMILARITY,
+  // Follow-up questions are rewritten before retrieval: 'rules' (keyword carryover, offline), 'llm' or 'disabled'
+  QUERY_REWRITE_MODE: settings.QUERY_REWRITE_MODE,
+  QUERY_REWRITE_HISTORY_TURNS: settings.QUERY_REWRITE_HISTORY_TURNS,
+  // Default knowledge filter, same syntax as /filter (e.g. "tags=billing audience=admin")
+  KNOWLEDGE_FILTER: settings.KNOWLEDGE_FILTER,
+  // N-gram vectors are stored next to the knowledge file (or inside the knowledge folder)
+  VECTOR_INDEX_PATH: settings.VECTOR_INDEX_PATH || (extname(dataPath)
+    ? dataPath.slice(0, -extname(dataPath).length) + '.vectors.json'
+    : join(dataPath, '.vectors.json')),
+
+  // Folder where conversations are persisted for /resume
+  SESSIONS_PATH: settings.SESSIONS_PATH,
+
+  // Model used by the agent (also selects the tokenizer encoding)
+  AGENT_MODEL: settings.AGENT_MODEL,
 
-  // Budget allocation percentages
-  BUDGET_SAFETY_MARGIN_PCT: parseInt(process.env.BUDGET_SAFETY_MARGIN_PCT || '7', 10),
-  BUDGET_SYSTEM_PROMPT_PCT: parseInt(process.env.BUDGET_SYSTEM_PROMPT_PCT || '10', 10),
-  BUDGET_MEMORY_PCT: parseInt(process.env.BUDGET_MEMORY_PCT || '15', 10),
-  BUDGET_KNOWLEDGE_PCT: parseInt(process.env.BUDGET_KNOWLEDGE_PCT || '28', 10),
-  BUDGET_CONVERSATION_PCT: parseInt(process.env.BUDGET_CONVERSATION_PCT || '40', 10),
+  // Token counting: 'bpe' (cl100k/o200k vocab files) or 'heuristic' (1 token ≈ 4 chars)
+  TOKENIZER: settings.TOKENIZER,
+  TOKENIZER_VOCAB_DIR: settings.TOKENIZER_VOCAB_DIR,
 
-  // Compression strategy: 'prune' or 'summarize'
-  COMPRESSION_STRATEGY: (process.env.COMPRESSION_STRATEGY || 'prune') as 'prune' | 'summarize',
+  // Budget allocation percentages (must add up to 100)
+  BUDGET_SAFETY_MARGIN_PCT: settings.BUDGET_SAFETY_MARGIN_PCT,
+  BUDGET_SYSTEM_PROMPT_PCT: settings.BUDGET_SYSTEM_PROMPT_PCT,
+  BUDGET_MEMORY_PCT: settings.BUDGET_MEMORY_PCT,
+  BUDGET_KNOWLEDGE_PCT: settings.BUDGET_KNOWLEDGE_PCT,
+  BUDGET_CONVERSATION_PCT: settings.BUDGET_CONVERSATION_PCT,
+
+  // Rebalancing: budget a section does not need flows to the others, by priority (highest first);
+  // a section never grows past its max and is not borrowed from below its min (% of MAX_TOKENS)
+  BUDGET_REBALANCE: settings.BUDGET_REBALANCE,
+  BUDGET_PRIORITY: settings.BUDGET_PRIORITY as string[],
+  BUDGET_MEMORY_MIN_PCT: settings.BUDGET_MEMORY_MIN_PCT,
+  BUDGET_MEMORY_MAX_PCT: settings.BUDGET_MEMORY_MAX_PCT,
+  BUDGET_KNOWLEDGE_MIN_PCT: settings.BUDGET_KNOWLEDGE_MIN_PCT,
+  BUDGET_KNOWLEDGE_MAX_PCT: settings.BUDGET_KNOWLEDGE_MAX_PCT,
+  BUDGET_CONVERSATION_MIN_PCT: settings.BUDGET_CONVERSATION_MIN_PCT,
+  BUDGET_CONVERSATION_MAX_PCT: settings.BUDGET_CONVERSATION_MAX_PCT,
+
+  // Compression strategy: 'prune' (FIFO), 'summarize' (API), 'extractive' (offline summaries)
+  // or 'relevance' (keep the turns most related to the query), any registered strategy,
+  // or a chain such as 'summarize+prune' (see compression-strategies.ts)
+  COMPRESSION_STRATEGY: settings.COMPRESSION_STRATEGY,
 
   // Maximum tokens for summary generation (calculated from percentage of MAX_TOKENS)
   SUMMARY_MAX_TOKENS_PCT: summaryMaxTokensPct,
-  SUMMARY_MAX_TOKENS: Math.floor(maxTokens * summaryMaxTokensPct / 100),
+  SUMMARY_MAX_TOKENS: summaryMaxTokens,
 
   // Allow summarization to fall back to pruning for small message sets
-  ALLOW_SUMMARIZATION_FALLBACK: process.env.ALLOW_SUMMARIZATION_FALLBACK !== 'false',
+  ALLOW_SUMMARIZATION_FALLBACK: settings.ALLOW_SUMMARIZATION_FALLBACK,
+
+  // Summarization tiers (shares of the conversation budget, must add up to 100): recent turns verbatim,
+  // segment summaries of evicted batches, and a long-range summary of older segments
+  TIER_RECENT_PCT: settings.TIER_RECENT_PCT,
+  TIER_SEGMENT_PCT: settings.TIER_SEGMENT_PCT,
+  TIER_LONG_RANGE_PCT: settings.TIER_LONG_RANGE_PCT,
+
+  // When history overflows, evict old messages until the recent tier uses at most this % of its share
+  SUMMARY_LOW_WATERMARK_PCT: settings.SUMMARY_LOW_WATERMARK_PCT,
 
   // Minimum number of recent messages to keep intact (not summarized)
-  MIN_RECENT_MESSAGES: parseInt(process.env.MIN_RECENT_MESSAGES || '0', 10),
+  MIN_RECENT_MESSAGES: settings.MIN_RECENT_MESSAGES,
+
+  // Guaranteed fit: when the prompt is still over budget after compression, the largest items are truncated
+  // (head and tail kept) in this order: 'history' messages, 'knowledge' entries, 'memory' entries, the current 'query'
+  TRUNCATION_PRIORITY: settings.TRUNCATION_PRIORITY,
 
   // Memory system configuration
-  MEMORY_EXTRACTION_MODE: (process.env.MEMORY_EXTRACTION_MODE || 'disabled') as 'realtime' | 'batch' | 'disabled',
+  MEMORY_EXTRACTION_MODE: settings.MEMORY_EXTRACTION_MODE,
+  // Query classification and memory extraction: 'llm' (API, falls back to the rules when a call fails)
+  // or 'rules' (offline keyword and phrasing rules, no API calls)
+  MEMORY_EXTRACTOR: settings.MEMORY_EXTRACTOR,
+  // Batch mode: buffered exchanges are analyzed together every N turns, at /save and on exit
+  MEMORY_BATCH_TURNS: settings.MEMORY_BATCH_TURNS,
+  // Consolidation on save, within a category (Jaccard similarity of keywords, 0-1): a near-duplicate
+  // (>= MEMORY_DUPLICATE_SIMILARITY, no contradiction) is merged; a related claim of opposite polarity
+  // (>= MEMORY_CONFLICT_SIMILARITY) or another value for the same attribute supersedes the older entry
+  MEMORY_CONSOLIDATION: settings.MEMORY_CONSOLIDATION,
+  MEMORY_DUPLICATE_SIMILARITY: settings.MEMORY_DUPLICATE_SIMILARITY,
+  MEMORY_CONFLICT_SIMILARITY: settings.MEMORY_CONFLICT_SIMILARITY,
+  // Memory ranking: score = relevance (similarity to the query, 'lexical' keyword overlap or 'ngram' hashed n-gram
+  // vectors) + recency (halves every MEMORY_RECENCY_HALF_LIFE_DAYS) + importance, each weighted, plus a boost
+  // when the query is classified into the entry's category. Candidates need MEMORY_MIN_RELEVANCE or that category
+  MEMORY_SIMILARITY: settings.MEMORY_SIMILARITY,
+  MEMORY_MIN_RELEVANCE: settings.MEMORY_MIN_RELEVANCE,
+  MEMORY_RELEVANCE_WEIGHT: settings.MEMORY_RELEVANCE_WEIGHT,
+  MEMORY_RECENCY_WEIGHT: settings.MEMORY_RECENCY_WEIGHT,
+  MEMORY_IMPORTANCE_WEIGHT: settings.MEMORY_IMPORTANCE_WEIGHT,
+  MEMORY_CATEGORY_BOOST: settings.MEMORY_CATEGORY_BOOST,
+  MEMORY_RECENCY_HALF_LIFE_DAYS: settings.MEMORY_RECENCY_HALF_LIFE_DAYS,
   MEMORY_CATEGORIES: [
     'user_preference',
     'user_info',
@@ -47,3 +329,12 @@ export const CONFIG = {
     'other'
   ] as const
 } as const;
+
+export type MemoryCategory = typeof CONFIG.MEMORY_CATEGORIES[number];
+
+/**
+ * Whether a name (user input, model output) is one of the memory categories
+ */
+export function isMemoryCategory(name: string): name is MemoryCategory {
+  return (CONFIG.MEMORY_CATEGORIES as readonly string[]).includes(name);
+}
@@ -4,11 +4,12 @@
  */
 
 import { Agent } from '@openai/agents';
+import { CONFIG } from '../config.js';
 
 export function createAgent(): Agent {
   return new Agent({
     name: 'KnowledgeAssistant',
-    instructions: 'You are a helpful assistant. Follow the instructions in the system prompt carefully.',
-    model: 'gpt-4o-mini' // Fast and cost-effective
+    // No instructions: the system prompt is the first item of the input rendered by the context manager
+    model: CONFIG.AGENT_MODEL // Default gpt-4o-mini: fast and cost-effective
   });
 }
@@ -0,0 +1,124 @@
+/**
+ * Budget Allocator - rebalances the token budget between context sections on every turn
+ * Each section first gets what it actually needs (up to its configured share); the budget left unused
+ * then goes to sections that need more, by priority, and higher-priority sections may borrow from lower ones
+ */
+
+import { CONFIG } from '../config.js';
+
+export type BudgetSection = 'memory' | 'knowledge' | 'conversation';
+
+export const BUDGET_SECTIONS: BudgetSection[] = ['memory', 'knowledge', 'conversation'];
+
+export interface SectionLimits {
+  min: number; // Tokens a section keeps when others borrow from it
+  max: number; // Tokens a section never exceeds
+}
+
+export interface BudgetTransfer {
+  to: BudgetSection;
+  from: BudgetSection | 'unused'; // 'unused': budget other sections did not need
+  tokens: number;
+}
+
+export interface BudgetAllocation {
+  base: Record<BudgetSection, number>;    // Configured shares
+  demand: Record<BudgetSection, number>;  // Tokens each section would use without limit
+  budgets: Record<BudgetSection, number>; // Allocated for this turn
+  transfers: BudgetTransfer[];
+}
+
+export class BudgetAllocator {
+  private readonly limits: Record<BudgetSection, SectionLimits>;
+  private readonly priority: BudgetSection[];
+
+  constructor(
+    maxTokens: number = CONFIG.MAX_TOKENS,
+    priority: string[] = CONFIG.BUDGET_PRIORITY,
+    limitPcts: Record<BudgetSection, { min: number; max: number }> = {
+      memory: { min: CONFIG.BUDGET_MEMORY_MIN_PCT, max: CONFIG.BUDGET_MEMORY_MAX_PCT },
+      knowledge: { min: CONFIG.BUDGET_KNOWLEDGE_MIN_PCT, max: CONFIG.BUDGET_KNOWLEDGE_MAX_PCT },
+      conversation: { min: CONFIG.BUDGET_CONVERSATION_MIN_PCT, max: CONFIG.BUDGET_CONVERSATION_MAX_PCT }
+    }
+  ) {
+    const unknown = priority.filter(section => !BUDGET_SECTIONS.includes(section as BudgetSection));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown budget section "${unknown.join('", "')}" in BUDGET_PRIORITY (expected: ${BUDGET_SECTIONS.join(', ')})`);
+    }
+
+    // Sections missing from the priority list come last, in their default order
+    this.priority = [
+      ...priority as BudgetSection[],
+      ...BUDGET_SECTIONS.filter(section => !priority.includes(section))
+    ].filter((section, index, all) => all.indexOf(section) === index);
+
+    this.limits = {
+      memory: this.toLimits(maxTokens, limitPcts.memory),
+      knowledge: this.toLimits(maxTokens, limitPcts.knowledge),
+      conversation: this.toLimits(maxTokens, limitPcts.conversation)
+    };
+  }
+
+  /**
+   * Split the sum of the configured shares according to this turn's demand
+   */
+  allocate(base: Record<BudgetSection, number>, demand: Record<BudgetSection, number>): BudgetAllocation {
+    const budgets = { memory: 0, knowledge: 0, conversation: 0 };
+    const transfers: BudgetTransfer[] = [];
+    const target = (section: BudgetSection) => Math.min(demand[section], this.limits[section].max);
+
+    // 1. Each section keeps what it needs of its own share
+    for (const section of BUDGET_SECTIONS) {
+      budgets[section] = Math.min(base[section], target(section));
+    }
+
+    // 2. Unused budget goes to the sections that need more, highest priority first
+    let unused = BUDGET_SECTIONS.reduce((total, section) => total + base[section] - budgets[section], 0);
+    for (const section of this.priority) {
+      const tokens = Math.min(target(section) - budgets[section], unused);
+      if (tokens > 0) {
+        budgets[section] += tokens;
+        unused -= tokens;
+        transfers.push({ to: section, from: 'unused', tokens });
+      }
+    }
+
+    // 3. Still short: borrow from lower-priority sections (lowest first), down to their minimum
+    this.priority.forEach((section, rank) => {
+      for (const lender of this.priority.slice(rank + 1).reverse()) {
+        const tokens = Math.min(target(section) - budgets[section], budgets[lender] - this.limits[lender].min);
+        if (tokens > 0) {
+          budgets[section] += tokens;
+          budgets[lender] -= tokens;
+          transfers.push({ to: section, from: lender, tokens });
+        }
+      }
+    });
+
+    return { base, demand, budgets, transfers };
+  }
+
+  /**
+   * Allocation lines for the DEBUG breakdown
+   */
+  describe(allocation: BudgetAllocation): string[] {
+    const lines = [`Priority: ${this.priority.join(' > ')}`];
+    for (const section of BUDGET_SECTIONS) {
+      const { min, max } = this.limits[section];
+      lines.push(`${(section.charAt(0).toUpperCase() + section.slice(1) + ':').padEnd(14)}` +
+        `demand ${allocation.demand[section]}, share ${allocation.base[section]} → ${allocation.budgets[section]} tokens ` +
+        `(min ${min}, max ${max})`);
+    }
+    for (const transfer of allocation.transfers) {
+      lines.push(`↳ ${transfer.to} +${transfer.tokens} from ${transfer.from === 'unused' ? 'unused budget' : transfer.from}`);
+    }
+    return lines;
+  }
+
+  private toLimits(maxTokens: number, pcts: { min: number; max: number }): SectionLimits {
+    return {
+      min: Math.floor(maxTokens * pcts.min / 100),
+      max: Math.floor(maxTokens * pcts.max / 100)
+    };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Citation Service - verifies the [doc_id] citations in assistant responses
+ * Citations must refer to knowledge entries that were in the context window
+ */
+
+import { KnowledgeEntry } from '../types/index.js';
+
+export interface CitationReport {
+  cited: KnowledgeEntry[];    // Valid citations, in order of first use
+  unverified: string[];       // Ids that exist in the knowledge base but were not in the context
+  unknown: string[];          // Ids that do not exist at all
+}
+
+export class CitationService {
+  // A source id as the system prompt asks for it: starts with a letter, has a digit or separator ("doc_12", "guides/sso"),
+  // so footnotes "[1]", task boxes "[x]" and bracketed words "[TODO]" are not citations
+  private static readonly SOURCE_ID = String.raw`(?=[a-z][\w.\-/:#]*?[\d_.\-/:])[a-z][\w.\-/:#]*`;
+  // "[doc_12]" or "[doc_12, doc_7]", not markdown links "[text](url)"
+  private static readonly CITATION_PATTERN = new RegExp(
+    String.raw`\[(${CitationService.SOURCE_ID}(?:\s*[,;]\s*${CitationService.SOURCE_ID})*)\](?!\()`,
+    'gi'
+  );
+
+  /**
+   * @param lookup Finds an entry anywhere in the knowledge base (to tell stale citations from invented ones)
+   */
+  constructor(private readonly lookup: (id: string) => KnowledgeEntry | undefined = () => undefined) {}
+
+  /**
+   * Unique cited ids in order of first use (passage suffixes like "#2" are dropped)
+   */
+  extractCitations(text: string): string[] {
+    const ids = new Set<string>();
+
+    for (const match of text.matchAll(CitationService.CITATION_PATTERN)) {
+      for (const id of match[1].split(/[,;]/)) {
+        ids.add(id.trim().replace(/#\d+$/, ''));
+      }
+    }
+
+    return Array.from(ids);
+  }
+
+  /**
+   * Check the citations of a response against the knowledge entries that were in its context
+   */
+  verify(response: string, contextEntries: KnowledgeEntry[]): CitationReport {
+    const inContext = new Map(contextEntries.map(entry => [entry.id, entry]));
+    const report: CitationReport = { cited: [], unverified: [], unknown: [] };
+
+    for (const id of this.extractCitations(response)) {
+      const entry = inContext.get(id);
+      if (entry) {
+        report.cited.push(entry);
+      } else if (this.lookup(id)) {
+        report.unverified.push(id);
+      } else {
+        report.unknown.push(id);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * "Sources:" footer listing cited titles, plus a warning for citations that could not be verified
+   * Empty when the response cites nothing
+   */
+  formatFooter(report: CitationReport): string {
+    const lines: string[] = [];
+
+    if (report.cited.length > 0) {
+      lines.push('Sources:');
+      lines.push(...report.cited.map(entry => `  [${entry.id}] ${entry.title}`));
+    }
+
+    if (report.unverified.length > 0) {
+      lines.push(`⚠️ Not in context: ${report.unverified.map(id => `[${id}]`).join(', ')}`);
+    }
+    if (report.unknown.length > 0) {
+      lines.push(`⚠️ Unknown sources: ${report.unknown.map(id => `[${id}]`).join(', ')}`);
+    }
+
+    return lines.join('\n');
+  }
+}
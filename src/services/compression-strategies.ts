@@ -0,0 +1,487 @@
+/**
+ * Compression Strategies - COMPRESS Context Strategy
+ * Each strategy fits the conversation history into a token budget; ContextManager picks one by name from a registry
+ * Names joined with "+" chain strategies: "summarize+prune" prunes the summarized history if it is still too big
+ */
+
+import { Message, SummaryCheckpoint, SummarySegment } from '../types/index.js';
+import { Bm25Index } from '../utils/bm25-index.js';
+import { CONFIG } from '../config.js';
+import { SummarizationService, Summarizer } from './summarization.js';
+import { ExtractiveSummarizer } from './extractive-summarizer.js';
+
+// Where a message of the compressed history comes from
+export type HistoryTier = 'recent' | 'segment' | 'long-range';
+
+export interface CompressionRequest {
+  messages: Message[];                      // Conversation history, oldest first
+  budget: number;                           // Tokens available for the compressed history
+  query: string;                            // Current (rewritten) query
+  countMessage: (message: Message) => number; // Tokens of a message as rendered in the prompt
+}
+
+export interface CompressionMetadata {
+  strategy: string;                  // Strategy (or chain) that produced the result
+  tiers?: Map<Message, HistoryTier>; // Origin of each message (summarizing strategies)
+  notes: string[];                   // Extra lines for the DEBUG breakdown
+}
+
+export interface CompressionResult {
+  messages: Message[];
+  tokens: number;
+  metadata: CompressionMetadata;
+}
+
+export interface CompressionStrategy {
+  readonly name: string;
+  compress(request: CompressionRequest): Promise<CompressionResult>;
+  // State that must survive a restart (summary tiers), saved with the session
+  exportState?(): SummaryCheckpoint | null;
+  importState?(state: SummaryCheckpoint | null): void;
+}
+
+interface TierBudgets {
+  recent: number;
+  segment: number;
+  longRange: number;
+}
+
+/**
+ * Remove oldest messages first (FIFO) - fast, no API cost
+ */
+export class PruneStrategy implements CompressionStrategy {
+  readonly name = 'prune';
+
+  async compress(request: CompressionRequest): Promise<CompressionResult> {
+    const kept = keepRecent(request.messages, request.budget, request.countMessage);
+    return { ...kept, metadata: { strategy: this.name, notes: [] } };
+  }
+}
+
+/**
+ * Keep the past exchanges most related to the query (BM25, as for knowledge retrieval)
+ * The latest exchange and MIN_RECENT_MESSAGES are always kept, user/assistant pairs are kept or dropped together,
+ * the remaining budget goes to the most relevant exchanges (then the most recent), in chronological order
+ */
+export class RelevanceStrategy implements CompressionStrategy {
+  readonly name = 'relevance';
+
+  async compress({ messages, budget, query, countMessage }: CompressionRequest): Promise<CompressionResult> {
+    if (messages.length === 0) {
+      return { messages: [], tokens: 0, metadata: { strategy: this.name, notes: [] } };
+    }
+
+    // Exchanges: a user message with the replies that follow it (summaries stand alone)
+    const exchanges: Array<{ messages: Message[]; tokens: number }> = [];
+    for (const message of messages) {
+      const current = exchanges[exchanges.length - 1];
+      if (current && message.role === 'assistant' && current.messages[0].role !== 'system') {
+        current.messages.push(message);
+      } else {
+        exchanges.push({ messages: [message], tokens: 0 });
+      }
+    }
+    exchanges.forEach(exchange => { exchange.tokens = countAll(exchange.messages, countMessage); });
+
+    const kept = new Set<number>();
+    let currentTokens = 0;
+
+    // Latest exchanges first, until MIN_RECENT_MESSAGES are covered (the current query at least)
+    let recentMessages = 0;
+    for (let i = exchanges.length - 1; i >= 0; i--) {
+      if (kept.size > 0 && recentMessages >= CONFIG.MIN_RECENT_MESSAGES) {
+        break;
+      }
+      kept.add(i);
+      currentTokens += exchanges[i].tokens;
+      recentMessages += exchanges[i].messages.length;
+    }
+
+    // Then by relevance; exchanges that match nothing follow, most recent first
+    const scores = new Map(
+      new Bm25Index(
+        exchanges.map((exchange, i) => ({
+          id: String(i),
+          fields: { content: exchange.messages.map(m => m.content).join('\n') }
+        })),
+        { fieldWeights: { content: 1 } }
+      ).search(query).map(match => [Number(match.id), match.score])
+    );
+    const candidates = exchanges
+      .map((_, i) => i)
+      .filter(i => !kept.has(i))
+      .sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0) || b - a);
+
+    for (const i of candidates) {
+      if (currentTokens + exchanges[i].tokens <= budget) {
+        kept.add(i);
+        currentTokens += exchanges[i].tokens;
+      }
+      // Otherwise skip it: a shorter exchange may still fit
+    }
+
+    const relevant = candidates.filter(i => kept.has(i) && scores.has(i)).length;
+    return {
+      messages: exchanges.flatMap((exchange, i) => kept.has(i) ? exchange.messages : []),
+      tokens: currentTokens,
+      metadata: {
+        strategy: this.name,
+        notes: [`Relevance: kept ${kept.size}/${exchanges.length} exchanges (${relevant} matching the query)`]
+      }
+    };
+  }
+}
+
+/**
+ * Summarize evicted messages in three tiers (used by "summarize" and "extractive", only the summarizer differs):
+ * - recent: latest messages verbatim (whatever the summary tiers leave unused)
+ * - segment: one summary per eviction batch (TIER_SEGMENT_PCT of the budget)
+ * - long-range: summary of the oldest segments (TIER_LONG_RANGE_PCT of the budget)
+ * When the recent messages no longer fit, the oldest are evicted down to a low watermark of the recent share
+ * and summarized as a new segment in one call; segments over their share are folded into the long-range summary
+ */
+export class SummarizeStrategy implements CompressionStrategy {
+  // Summary tiers of evicted messages: each message is summarized once (persisted with the session)
+  private state: SummaryCheckpoint | null = null;
+
+  constructor(readonly name: string, private readonly summarizer: Summarizer) {}
+
+  exportState(): SummaryCheckpoint | null {
+    return this.state ? { ...this.state, segments: [...this.state.segments] } : null;
+  }
+
+  importState(state: SummaryCheckpoint | null): void {
+    this.state = state ? { ...state, segments: [...state.segments] } : null;
+  }
+
+  async compress(request: CompressionRequest): Promise<CompressionResult> {
+    const { messages: history, budget, countMessage } = request;
+    const debug = process.env.DEBUG === 'true';
+
+    if (history.length === 0) {
+      return this.assembleTiers(null, [], request);
+    }
+
+    // Messages after the checkpoint (everything before it is already summarized)
+    const state = this.validState(history);
+    const coveredCount = state?.coveredCount ?? 0;
+    const tail = history.slice(coveredCount);
+    const summaryTokens = this.countSummaryTiers(state, countMessage);
+
+    // Everything not yet summarized still fits: no summarization call
+    const fitting = keepRecent(tail, budget - summaryTokens, countMessage);
+    if (fitting.messages.length === tail.length) {
+      return this.assembleTiers(state, fitting.messages, request);
+    }
+
+    // Evict down to the low watermark so the following turns fit without another call
+    const tierBudgets = this.tierBudgets(budget);
+    const lowWatermark = Math.floor(tierBudgets.recent * CONFIG.SUMMARY_LOW_WATERMARK_PCT / 100);
+    // Summaries over the rest of a reduced budget leave less room than the watermark: evict at least what does not fit
+    const watermark = keepRecent(tail, lowWatermark, countMessage);
+    const kept = watermark.messages.length <= fitting.messages.length ? watermark : fitting;
+    const evicted = tail.slice(0, tail.length - kept.messages.length);
+    const evictedTokens = countAll(evicted, countMessage);
+
+    // Only start summarizing if enough old messages make it worthwhile (once started, every eviction is summarized)
+    const shouldSummarize = state !== null || this.summarizer.shouldSummarize(evicted.length, evictedTokens);
+
+    if (debug) {
+      console.log(`   [Summarization check] Evicted: ${evicted.length} messages (${evictedTokens} tokens), already summarized: ${coveredCount}`);
+      console.log(`   [Summarization check] shouldSummarize: ${shouldSummarize} (first summary requires >=4 messages AND >=100 tokens)`);
+      console.log(`   [Summarization check] ALLOW_SUMMARIZATION_FALLBACK: ${CONFIG.ALLOW_SUMMARIZATION_FALLBACK}`);
+    }
+
+    if (CONFIG.ALLOW_SUMMARIZATION_FALLBACK && !shouldSummarize) {
+      // Just prune instead (fallback enabled and conditions not met)
+      if (debug) {
+        console.log(`   ℹ️  Falling back to pruning: ${evicted.length} messages (${evictedTokens} tokens) below threshold`);
+        console.log(`   ℹ️  Keeping only recent messages (no summary created)`);
+      }
+      return this.assembleTiers(null, fitting.messages, request);
+    }
+
+    if (!shouldSummarize && debug) {
+      console.log(`   ⚠️  Forcing summarization despite low message count (ALLOW_SUMMARIZATION_FALLBACK=false)`);
+    }
+
+    try {
+      // Summarize the evicted batch as a new segment (aim for 30% of its size, within the segment share)
+      const segment = await this.summarizer.summarizeMessages(
+        evicted,
+        Math.min(Math.floor(evictedTokens * 0.3), tierBudgets.segment)
+      );
+
+      const next: SummaryCheckpoint = {
+        longRange: state?.longRange ?? null,
+        longRangeCount: state?.longRangeCount ?? 0,
+        segments: [...(state?.segments ?? []), { summary: segment, messageCount: evicted.length }],
+        coveredCount: coveredCount + evicted.length,
+        coveredUntil: evicted[evicted.length - 1].timestamp
+      };
+      await this.foldSegments(next, tierBudgets, countMessage);
+      this.state = next;
+
+      if (debug) {
+        console.log(`   📝 Summarized ${evicted.length} messages into segment ${next.segments.length} (summaries cover ${next.coveredCount} messages)`);
+      }
+
+      return this.assembleTiers(next, kept.messages, request);
+    } catch (error) {
+      console.error('Summarization failed, falling back to pruning:', error);
+      // Fallback to pruning
+      return this.assembleTiers(state, fitting.messages, request);
+    }
+  }
+
+  /**
+   * Fold the oldest segments into the long-range summary while the segments exceed their share
+   * (on failure the segments are kept; the oldest summaries are dropped when rendering if needed)
+   */
+  private async foldSegments(
+    state: SummaryCheckpoint,
+    tierBudgets: TierBudgets,
+    countMessage: (message: Message) => number
+  ): Promise<void> {
+    let segmentTokens = state.segments.reduce((total, segment) => total + countMessage(segment.summary), 0);
+    const folded: SummarySegment[] = [];
+
+    // The newest segment always stays in the segment tier
+    while (state.segments.length > 1 && segmentTokens > tierBudgets.segment) {
+      const oldest = state.segments.shift()!;
+      folded.push(oldest);
+      segmentTokens -= countMessage(oldest.summary);
+    }
+
+    if (folded.length === 0) {
+      return;
+    }
+
+    try {
+      state.longRange = await this.summarizer.summarizeMessages(
+        [...(state.longRange ? [state.longRange] : []), ...folded.map(segment => segment.summary)],
+        tierBudgets.longRange
+      );
+      state.longRangeCount += folded.reduce((total, segment) => total + segment.messageCount, 0);
+    } catch (error) {
+      console.error('Long-range summarization failed, keeping segments:', error);
+      state.segments.unshift(...folded);
+    }
+  }
+
+  /**
+   * Render the tiers oldest first: long-range summary, segment summaries, recent messages
+   * The oldest summaries give way when everything does not fit
+   */
+  private assembleTiers(state: SummaryCheckpoint | null, recent: Message[], request: CompressionRequest): CompressionResult {
+    const { budget, countMessage } = request;
+    const summaries: Array<{ message: Message; tier: HistoryTier }> = [];
+    if (state?.longRange) {
+      summaries.push({ message: state.longRange, tier: 'long-range' });
+    }
+    for (const segment of state?.segments ?? []) {
+      summaries.push({ message: segment.summary, tier: 'segment' });
+    }
+
+    const recentTokens = countAll(recent, countMessage);
+    let summaryTokens = summaries.reduce((total, summary) => total + countMessage(summary.message), 0);
+    while (summaries.length > 0 && summaryTokens + recentTokens > budget) {
+      summaryTokens -= countMessage(summaries.shift()!.message);
+    }
+
+    const tiers = new Map<Message, HistoryTier>();
+    summaries.forEach(summary => tiers.set(summary.message, summary.tier));
+    recent.forEach(message => tiers.set(message, 'recent'));
+
+    const messages = [...summaries.map(summary => summary.message), ...recent];
+    const tierBudgets = this.tierBudgets(budget);
+    const tierTokens = (tier: HistoryTier) => messages
+      .filter(message => tiers.get(message) === tier)
+      .reduce((total, message) => total + countMessage(message), 0);
+
+    return {
+      messages,
+      tokens: summaryTokens + recentTokens,
+      metadata: {
+        strategy: this.name,
+        tiers,
+        notes: [`Tiers: recent ${tierTokens('recent')} (share ${tierBudgets.recent}), ` +
+          `segment ${tierTokens('segment')} (share ${tierBudgets.segment}), ` +
+          `long-range ${tierTokens('long-range')} (share ${tierBudgets.longRange}) tokens`]
+      }
+    };
+  }
+
+  private tierBudgets(budget: number): TierBudgets {
+    return {
+      recent: Math.floor(budget * CONFIG.TIER_RECENT_PCT / 100),
+      segment: Math.floor(budget * CONFIG.TIER_SEGMENT_PCT / 100),
+      longRange: Math.floor(budget * CONFIG.TIER_LONG_RANGE_PCT / 100)
+    };
+  }
+
+  private countSummaryTiers(state: SummaryCheckpoint | null, countMessage: (message: Message) => number): number {
+    if (!state) {
+      return 0;
+    }
+    return (state.longRange ? countMessage(state.longRange) : 0) +
+      state.segments.reduce((total, segment) => total + countMessage(segment.summary), 0);
+  }
+
+  /**
+   * The summary tiers, if they were built from this history (a different conversation starts over)
+   */
+  private validState(history: Message[]): SummaryCheckpoint | null {
+    const state = this.state;
+    if (state && state.coveredCount <= history.length &&
+        history[state.coveredCount - 1]?.timestamp === state.coveredUntil) {
+      return state;
+    }
+    this.state = null;
+    return null;
+  }
+}
+
+/**
+ * Run strategies in sequence: each step only runs if the previous result is still over budget
+ * and compresses that result ("summarize+prune": prune the summarized history, oldest summaries first)
+ */
+export class CompositeStrategy implements CompressionStrategy {
+  readonly name: string;
+
+  constructor(private readonly steps: CompressionStrategy[]) {
+    if (steps.length === 0) {
+      throw new Error('A composite strategy needs at least one step');
+    }
+    this.name = steps.map(step => step.name).join('+');
+  }
+
+  // The first stateful step owns the persisted state
+  exportState(): SummaryCheckpoint | null {
+    const stateful = this.steps.find(step => step.exportState);
+    return stateful?.exportState?.() ?? null;
+  }
+
+  importState(state: SummaryCheckpoint | null): void {
+    this.steps.forEach(step => step.importState?.(state));
+  }
+
+  async compress(request: CompressionRequest): Promise<CompressionResult> {
+    let result = await this.steps[0].compress(request);
+    const notes = [...result.metadata.notes];
+    let tiers = result.metadata.tiers;
+
+    for (const step of this.steps.slice(1)) {
+      if (result.tokens <= request.budget) {
+        break;
+      }
+      result = await step.compress({ ...request, messages: result.messages });
+      notes.push(`${step.name}: ${result.messages.length} messages kept (${result.tokens} tokens)`, ...result.metadata.notes);
+      tiers = result.metadata.tiers ?? tiers;
+    }
+
+    // Tiers of messages that survived the later steps
+    const kept = tiers ? new Map(result.messages.filter(m => tiers!.has(m)).map(m => [m, tiers!.get(m)!])) : undefined;
+    return { ...result, metadata: { strategy: this.name, tiers: kept, notes } };
+  }
+}
+
+/**
+ * Strategies by name; register a custom strategy to select it with COMPRESSION_STRATEGY
+ * without editing ContextManager
+ */
+export class CompressionStrategyRegistry {
+  // Registered strategies, or factories of strategies that are only built when selected
+  private readonly strategies = new Map<string, CompressionStrategy | (() => CompressionStrategy)>();
+
+  /**
+   * Built-in strategies: prune, summarize (API, SummarizationService unless given), extractive (offline) and relevance
+   * The API summarizer is only created when "summarize" is selected, so other strategies need no credentials
+   */
+  static createDefault(summarizer?: Summarizer): CompressionStrategyRegistry {
+    const registry = new CompressionStrategyRegistry();
+    registry.register(new PruneStrategy());
+    registry.registerLazy('summarize', () => new SummarizeStrategy('summarize', summarizer ?? new SummarizationService()));
+    registry.register(new SummarizeStrategy('extractive', summarizer ?? new ExtractiveSummarizer()));
+    registry.register(new RelevanceStrategy());
+    return registry;
+  }
+
+  register(strategy: CompressionStrategy): void {
+    this.checkName(strategy.name);
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Register a strategy built on first use (e.g. one that needs API credentials), then reused
+   */
+  registerLazy(name: string, create: () => CompressionStrategy): void {
+    this.checkName(name);
+    this.strategies.set(name, create);
+  }
+
+  /**
+   * Strategy by name, "a+b" builds a composite from registered strategies
+   */
+  get(name: string): CompressionStrategy {
+    const steps = name.split('+').map(part => part.trim());
+    const missing = steps.filter(step => !this.strategies.has(step));
+    if (missing.length > 0) {
+      throw new Error(`Unknown compression strategy "${missing.join('", "')}" (available: ${this.names().join(', ')})`);
+    }
+
+    return steps.length === 1
+      ? this.resolve(steps[0])
+      : new CompositeStrategy(steps.map(step => this.resolve(step)));
+  }
+
+  names(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  private resolve(name: string): CompressionStrategy {
+    const entry = this.strategies.get(name)!;
+    if (typeof entry !== 'function') {
+      return entry;
+    }
+    const strategy = entry();
+    this.strategies.set(name, strategy);
+    return strategy;
+  }
+
+  private checkName(name: string): void {
+    if (name.includes('+')) {
+      throw new Error(`Invalid strategy name "${name}": "+" joins composite strategies`);
+    }
+  }
+}
+
+/**
+ * Most recent messages that fit the budget (at least MIN_RECENT_MESSAGES)
+ */
+function keepRecent(
+  messages: Message[],
+  budget: number,
+  countMessage: (message: Message) => number
+): { messages: Message[]; tokens: number } {
+  const kept: Message[] = [];
+  let tokens = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const messageTokens = countMessage(messages[i]);
+    const needsMoreMessages = kept.length < CONFIG.MIN_RECENT_MESSAGES;
+
+    if (tokens + messageTokens <= budget || needsMoreMessages) {
+      kept.unshift(messages[i]);
+      tokens += messageTokens;
+    } else {
+      break;
+    }
+  }
+
+  return { messages: kept, tokens };
+}
+
+function countAll(messages: Message[], countMessage: (message: Message) => number): number {
+  return messages.reduce((total, message) => total + countMessage(message), 0);
+}
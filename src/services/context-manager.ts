@@ -1,19 +1,54 @@
 /**
  * Context Manager - COMPRESS Context Strategy
  * Manages context window with configurable token budget
- * Supports both pruning (FIFO) and summarization strategies
+ * Conversation history is compressed by a pluggable strategy (see compression-strategies.ts)
  */
 
-import { Message, KnowledgeEntry, MemoryEntry, ContextWindow, ContextBudget } from '../types/index.js';
+import { Message, KnowledgeEntry, KnowledgePassage, MemoryEntry, RankedMemory, ContextWindow, ContextBudget, ContextInputItem, SummaryCheckpoint } from '../types/index.js';
 import { TokenCounter } from '../utils/token-counter.js';
+import { TextTruncator } from '../utils/text-truncator.js';
 import { CONFIG } from '../config.js';
-import { SummarizationService } from './summarization.js';
+import { Summarizer } from './summarization.js';
+import { CompressionResult, CompressionStrategy, CompressionStrategyRegistry, HistoryTier } from './compression-strategies.js';
+import { BudgetAllocation, BudgetAllocator } from './budget-allocator.js';
+import { MemoryRanker } from './memory-ranker.js';
+
+export type { HistoryTier } from './compression-strategies.js';
+
+export interface ContextManagerOptions {
+  summarizer?: Summarizer;                  // Summarizer of the built-in summarizing strategies
+  compressionStrategy?: string;             // Registered name or "a+b" chain (default: CONFIG.COMPRESSION_STRATEGY)
+  strategies?: CompressionStrategyRegistry; // Registry with custom strategies (default: the built-ins)
+  allocator?: BudgetAllocator | null;       // Per-turn rebalancing (null: fixed shares; default: CONFIG.BUDGET_REBALANCE)
+}
+
+type TruncationTarget = typeof CONFIG.TRUNCATION_PRIORITY[number];
+
+// Everything rendered into the prompt besides the fixed system prompt
+interface ContextParts {
+  memories: Array<MemoryEntry | RankedMemory>;
+  knowledge: KnowledgeEntry[];
+  history: Message[];
+  query: string;
+}
+
+// An item the guaranteed-fit pass may shorten; an empty text drops it
+interface TruncationCandidate {
+  label: string;
+  content: string;
+  replace(text: string): void;
+}
 
 export class ContextManager {
   private readonly budget: ContextBudget;
-  private readonly summarizationService: SummarizationService;
-
-  constructor() {
+  private readonly strategy: CompressionStrategy;
+  private readonly allocator: BudgetAllocator | null;
+  // Every kind of item can be truncated, so the prompt always fits (kinds missing from the setting come last)
+  private readonly truncationPriority: TruncationTarget[] = [
+    ...new Set<TruncationTarget>([...CONFIG.TRUNCATION_PRIORITY, 'history', 'knowledge', 'memory', 'query'])
+  ];
+
+  constructor(options: ContextManagerOptions = {}) {
     const maxTokens = CONFIG.MAX_TOKENS;
     // Calculate budgets as percentages of max tokens (configurable via .env)
     this.budget = {
@@ -24,7 +59,11 @@ export class ContextManager {
       knowledgeBudget: Math.floor(maxTokens * CONFIG.BUDGET_KNOWLEDGE_PCT / 100),
       conversationBudget: Math.floor(maxTokens * CONFIG.BUDGET_CONVERSATION_PCT / 100)
     };
-    this.summarizationService = new SummarizationService();
+    const strategies = options.strategies ?? CompressionStrategyRegistry.createDefault(options.summarizer);
+    this.strategy = strategies.get(options.compressionStrategy ?? CONFIG.COMPRESSION_STRATEGY);
+    this.allocator = options.allocator !== undefined
+      ? options.allocator
+      : (CONFIG.BUDGET_REBALANCE ? new BudgetAllocator(maxTokens) : null);
   }
 
   private readonly systemPrompt = `You are a helpful and friendly assistant.
@@ -34,64 +73,82 @@ IMPORTANT RULES:
 2. For factual or informational questions: prioritize using the knowledge base below
 3. If asked a factual question that's NOT in the knowledge base, clearly state: "I don't have that information in my knowledge base"
 4. Be concise, accurate, and friendly
-5. Reference knowledge base entries when using them to answer`;
+5. When using a knowledge base entry, cite it with its id in square brackets, e.g. [doc_12]. Only cite ids listed below`;
+
+  // Framing of the system sections rendered into the agent input
+  private static readonly MEMORY_HEADER = '## Important Context (from Memory):\n\n';
+  private static readonly KNOWLEDGE_HEADER = '## Knowledge Base:\n\n';
+  private static readonly NO_CONTEXT_NOTE = '[No relevant context found]';
+
+  /**
+   * Current summary tiers and their checkpoint (saved with the session)
+   */
+  exportSummaryState(): SummaryCheckpoint | null {
+    return this.strategy.exportState?.() ?? null;
+  }
+
+  /**
+   * Restore the summary tiers of a resumed session (null starts over), so its old messages compress exactly as before
+   */
+  importSummaryState(state: SummaryCheckpoint | null): void {
+    this.strategy.importState?.(state);
+  }
 
   /**
    * Build context window with token budget enforcement
-   * Supports both pruning and summarization strategies
+   * The conversation history is compressed by the configured strategy
    */
   async buildContext(
     conversationHistory: Message[],
-    relevantMemories: MemoryEntry[],
-    relevantKnowledge: KnowledgeEntry[],
-    currentQuery: string
+    relevantMemories: Array<MemoryEntry | RankedMemory>,
+    relevantKnowledge: Array<KnowledgeEntry | KnowledgePassage>,
+    currentQuery: string,
+    retrievalQuery: string = currentQuery
   ): Promise<ContextWindow> {
     const debug = process.env.DEBUG === 'true';
 
-    // 1. Start with system prompt
-    let currentTokens = TokenCounter.countText(this.systemPrompt);
+    // The current query is rendered and counted as the last user item, so it is neither compressed nor measured as history
+    const previousMessages = this.isCurrentQuery(conversationHistory[conversationHistory.length - 1], currentQuery)
+      ? conversationHistory.slice(0, -1)
+      : conversationHistory;
+
+    // 1. Start with system prompt and the fixed framing (system prompt + query messages)
+    const systemTokens = TokenCounter.countText(this.systemPrompt);
+    let currentTokens = systemTokens + this.countFixedFraming(currentQuery);
+
+    // Split the section budgets according to what this turn needs (fixed shares without an allocator)
+    const { budget, allocation } = this.allocateBudget(previousMessages, relevantMemories, relevantKnowledge);
 
     // 2. Add memory entries (SELECT strategy - highest priority)
-    const selectedMemories = this.selectMemoryEntries(
+    let selectedMemories = this.selectMemoryEntries(
       relevantMemories,
-      this.budget.memoryBudget
+      budget.memoryBudget
     );
-    const memoryTokens = TokenCounter.countMemoryEntries(selectedMemories);
+    let memoryTokens = this.countMemorySection(selectedMemories);
     currentTokens += memoryTokens;
 
     // 3. Add knowledge entries (SELECT strategy)
-    const selectedKnowledge = this.selectKnowledgeEntries(
+    let selectedKnowledge = this.selectKnowledgeEntries(
       relevantKnowledge,
-      this.budget.knowledgeBudget
+      budget.knowledgeBudget
     );
-    const knowledgeTokens = TokenCounter.countKnowledgeEntries(selectedKnowledge);
+    let knowledgeTokens = this.countKnowledgeSection(selectedKnowledge);
     currentTokens += knowledgeTokens;
 
-    // 4. Add conversation history (COMPRESS strategy - pruning or summarization)
-    let compressedHistory: Message[];
-    let historyTokens: number;
-
-    if (CONFIG.COMPRESSION_STRATEGY === 'summarize') {
-      const result = await this.summarizeConversationHistory(
-        conversationHistory,
-        this.budget.conversationBudget,
-        currentTokens
-      );
-      compressedHistory = result.messages;
-      historyTokens = result.tokens;
-    } else {
-      // Default: prune (FIFO)
-      compressedHistory = this.pruneConversationHistory(
-        conversationHistory,
-        this.budget.conversationBudget,
-        currentTokens
-      );
-      historyTokens = TokenCounter.countMessages(compressedHistory);
-    }
+    // 4. Add conversation history (COMPRESS strategy - prune, summarize, relevance or a custom one)
+    let compression = await this.compressHistory(
+      previousMessages,
+      budget.conversationBudget,
+      currentTokens,
+      retrievalQuery
+    );
 
-    currentTokens += historyTokens;
+    // Count the prompt exactly as it will be rendered
+    const fixedTokens = currentTokens;
+    let input = this.renderInput(selectedMemories, selectedKnowledge, compression.messages, currentQuery);
+    currentTokens = this.countInput(input);
 
-    // 4. Verify we're under budget - if not, aggressively compress conversation
+    // 5. Verify we're under budget - if not, aggressively compress conversation
     const available = this.budget.maxTokens - this.budget.safetyMargin;
     if (currentTokens > available) {
       if (debug) {
@@ -101,71 +158,76 @@ IMPORTANT RULES:
 
       // Calculate how much we need to reduce
       const excess = currentTokens - available;
-      const systemAndKnowledgeTokens = TokenCounter.countText(this.systemPrompt) + knowledgeTokens;
       const reducedConversationBudget = Math.max(
-        this.budget.conversationBudget - excess - 50, // Extra 50 token safety buffer
+        budget.conversationBudget - excess - 50, // Extra 50 token safety buffer
         100 // Minimum 100 tokens for conversation
       );
 
       if (debug) {
-        console.log(`[INFO] Reducing conversation budget from ${this.budget.conversationBudget} to ${reducedConversationBudget} tokens`);
+        console.log(`[INFO] Reducing conversation budget from ${budget.conversationBudget} to ${reducedConversationBudget} tokens`);
+        console.log(`[INFO] Using ${this.strategy.name} strategy for aggressive compression`);
       }
 
       // Recompress conversation history with reduced budget
-      if (CONFIG.COMPRESSION_STRATEGY === 'summarize') {
-        if (debug) {
-          console.log(`[INFO] Using summarization strategy for aggressive compression`);
-          console.log(`[INFO] ALLOW_SUMMARIZATION_FALLBACK=${CONFIG.ALLOW_SUMMARIZATION_FALLBACK}`);
-        }
-        const result = await this.summarizeConversationHistory(
-          conversationHistory,
-          reducedConversationBudget,
-          systemAndKnowledgeTokens
-        );
-        compressedHistory = result.messages;
-        historyTokens = result.tokens;
-
-        if (debug) {
-          const hasSummary = compressedHistory.some(m => m.role === 'system' && m.content.includes('[Previous conversation summary'));
-          console.log(`[INFO] Summarization result: ${hasSummary ? 'Created summary' : 'No summary created (fallback to recent messages only)'}`);
-        }
-      } else {
-        if (debug) {
-          console.log(`[INFO] Using pruning strategy for aggressive compression`);
-        }
-        compressedHistory = this.pruneConversationHistory(
-          conversationHistory,
-          reducedConversationBudget,
-          systemAndKnowledgeTokens
-        );
-        historyTokens = TokenCounter.countMessages(compressedHistory);
-      }
+      compression = await this.compressHistory(
+        previousMessages,
+        reducedConversationBudget,
+        fixedTokens,
+        retrievalQuery
+      );
 
       // Recalculate total
-      currentTokens = systemAndKnowledgeTokens + historyTokens;
+      input = this.renderInput(selectedMemories, selectedKnowledge, compression.messages, currentQuery);
+      currentTokens = this.countInput(input);
 
       if (debug) {
         console.log(`[INFO] After aggressive compression: ${currentTokens} tokens (target: ${available})`);
       }
+    }
 
-      // If still over budget, warn but proceed
-      if (currentTokens > available) {
-        if (debug) {
-          console.warn(`[WARNING] Still exceeds budget after aggressive compression. Proceeding anyway.`);
-        }
+    let compressedHistory = compression.messages;
+    let historyTokens = compression.tokens;
+    let query = currentQuery;
+
+    // 6. Guaranteed fit: oversized items (e.g. a pasted log) are truncated instead of exceeding the budget
+    let truncations: string[] = [];
+    if (currentTokens > available) {
+      const parts: ContextParts = {
+        memories: [...selectedMemories],
+        knowledge: [...selectedKnowledge],
+        history: [...compressedHistory],
+        query
+      };
+      truncations = this.truncateToFit(parts, available, compression.metadata.tiers);
+
+      ({ memories: selectedMemories, knowledge: selectedKnowledge, history: compressedHistory, query } = parts);
+      memoryTokens = this.countMemorySection(selectedMemories);
+      knowledgeTokens = this.countKnowledgeSection(selectedKnowledge);
+      historyTokens = this.countHistory(compressedHistory);
+      input = this.renderInput(selectedMemories, selectedKnowledge, compressedHistory, query);
+      currentTokens = this.countInput(input);
+
+      if (debug) {
+        console.log(`[INFO] Truncated ${truncations.length} item(s) to fit: ${currentTokens} tokens (target: ${available})`);
       }
     }
 
     // Build debug info
     let debugInfo: string | undefined;
     if (debug) {
-      const systemTokens = TokenCounter.countText(this.systemPrompt);
+      const framingTokens = currentTokens - systemTokens - memoryTokens - knowledgeTokens - historyTokens;
 
       const lines: string[] = [];
       lines.push('='.repeat(60));
       lines.push('TOKEN BREAKDOWN FOR THIS EXCHANGE');
       lines.push('='.repeat(60));
 
+      if (allocation && this.allocator) {
+        lines.push('');
+        lines.push('0. Budget Allocation (rebalanced for this turn):');
+        this.allocator.describe(allocation).forEach(line => lines.push(`   ${line}`));
+      }
+
       // 1. System Prompt
       lines.push('');
       lines.push(`1. System Prompt: ${systemTokens} tokens`);
@@ -175,12 +237,15 @@ IMPORTANT RULES:
       // 2. Memory Entries Detail
       lines.push('');
       lines.push(`2. Memory Entries: ${memoryTokens} tokens (${selectedMemories.length} selected)`);
-      lines.push(`   Budget: ${this.budget.memoryBudget} tokens`);
-      lines.push(`   Status: ${memoryTokens <= this.budget.memoryBudget ? '✓' : '✗'}`);
+      lines.push(`   Budget: ${budget.memoryBudget} tokens`);
+      lines.push(`   Status: ${memoryTokens <= budget.memoryBudget ? '✓' : '✗'}`);
       if (selectedMemories.length > 0) {
         selectedMemories.forEach((entry, idx) => {
-          const entryTokens = TokenCounter.countMemoryEntry(entry);
+          const entryTokens = this.countMemoryLine(entry);
           lines.push(`   Memory ${idx + 1} [${entry.category}]: "${entry.content.substring(0, 50)}..." = ${entryTokens} tokens`);
+          if ('score' in entry) {
+            lines.push(`      Score: ${MemoryRanker.describe(entry.score)}`);
+          }
         });
       } else {
         lines.push('   No relevant memories found');
@@ -189,12 +254,15 @@ IMPORTANT RULES:
       // 3. Knowledge Entries Detail
       lines.push('');
       lines.push(`3. Knowledge Entries: ${knowledgeTokens} tokens (${selectedKnowledge.length} selected)`);
-      lines.push(`   Budget: ${this.budget.knowledgeBudget} tokens`);
-      lines.push(`   Status: ${knowledgeTokens <= this.budget.knowledgeBudget ? '✓' : '✗'}`);
+      lines.push(`   Budget: ${budget.knowledgeBudget} tokens`);
+      lines.push(`   Status: ${knowledgeTokens <= budget.knowledgeBudget ? '✓' : '✗'}`);
+      if (retrievalQuery !== currentQuery) {
+        lines.push(`   Retrieval query (rewritten): "${retrievalQuery}"`);
+      }
       if (selectedKnowledge.length > 0) {
         selectedKnowledge.forEach((entry, idx) => {
-          const entryTokens = TokenCounter.countKnowledgeEntry(entry);
-          lines.push(`   Entry ${idx + 1}: "${entry.title.substring(0, 40)}..." = ${entryTokens} tokens`);
+          const entryTokens = this.countKnowledgeBlock(entry);
+          lines.push(`   Entry ${idx + 1} [${entry.id}]: "${entry.title.substring(0, 40)}..." = ${entryTokens} tokens`);
         });
       } else {
         lines.push('   No relevant knowledge entries found');
@@ -203,34 +271,36 @@ IMPORTANT RULES:
       // 4. Conversation History Detail
       lines.push('');
       lines.push(`4. Conversation History: ${historyTokens} tokens (${compressedHistory.length} messages)`);
-      lines.push(`   Budget: ${this.budget.conversationBudget} tokens`);
-      lines.push(`   Status: ${historyTokens <= this.budget.conversationBudget ? '✓' : '✗'}`);
-      lines.push(`   Strategy: ${CONFIG.COMPRESSION_STRATEGY}`);
+      lines.push(`   Budget: ${budget.conversationBudget} tokens`);
+      lines.push(`   Status: ${historyTokens <= budget.conversationBudget ? '✓' : '✗'}`);
+      lines.push(`   Strategy: ${compression.metadata.strategy}`);
       if (compressedHistory.length > 0) {
         compressedHistory.forEach((msg, idx) => {
-          const msgTokens = TokenCounter.countMessage(msg);
+          const msgTokens = this.countHistoryMessage(msg);
 
           // Show full content for all messages (replace newlines with spaces for readability)
           const preview = msg.content.replace(/\n/g, ' ');
 
-          lines.push(`   Msg ${idx + 1} [${msg.role}]: "${preview}" = ${msgTokens} tokens`);
+          const tier = compression.metadata.tiers?.get(msg);
+          lines.push(`   Msg ${idx + 1} [${msg.role}${tier ? `, ${tier}` : ''}]: "${preview}" = ${msgTokens} tokens`);
         });
       }
+      compression.metadata.notes.forEach(note => lines.push(`   ${note}`));
 
       // 4. Compression Info
-      const removedCount = conversationHistory.length - compressedHistory.length;
+      const removedCount = previousMessages.length - compressedHistory.length;
       const hasSummary = compressedHistory.some(m => m.role === 'system' && m.content.includes('[Previous conversation summary'));
 
-      if (CONFIG.COMPRESSION_STRATEGY === 'summarize' && hasSummary) {
+      if (hasSummary) {
         // Count how many messages were summarized vs kept
         const keptMessages = compressedHistory.filter(m => m.role !== 'system' || !m.content.includes('[Previous conversation summary'));
-        const summarizedCount = conversationHistory.length - keptMessages.length;
+        const summarizedCount = previousMessages.length - keptMessages.length;
 
         lines.push('');
         lines.push(`   📝 SUMMARIZED: ${summarizedCount} old messages compressed into summary`);
         lines.push(`   ✓ KEPT INTACT: ${keptMessages.length} recent messages (no summarization)`);
       } else if (removedCount > 0) {
-        const removedTokens = TokenCounter.countMessages(conversationHistory.slice(0, removedCount));
+        const removedTokens = this.countHistory(previousMessages.slice(0, removedCount));
         lines.push('');
         lines.push(`   ⚠️  PRUNED: ${removedCount} old messages (${removedTokens} tokens removed)`);
       }
@@ -238,15 +308,22 @@ IMPORTANT RULES:
       // 5. Total Summary
       lines.push('');
       lines.push('5. Summary:');
-      lines.push(`   System:       ${systemTokens.toString().padStart(4)} tokens (${((systemTokens/this.budget.systemPromptBudget)*100).toFixed(1)}% of ${this.budget.systemPromptBudget})`);
-      lines.push(`   Memory:       ${memoryTokens.toString().padStart(4)} tokens (${((memoryTokens/this.budget.memoryBudget)*100).toFixed(1)}% of ${this.budget.memoryBudget})`);
-      lines.push(`   Knowledge:    ${knowledgeTokens.toString().padStart(4)} tokens (${((knowledgeTokens/this.budget.knowledgeBudget)*100).toFixed(1)}% of ${this.budget.knowledgeBudget})`);
-      lines.push(`   Conversation: ${historyTokens.toString().padStart(4)} tokens (${((historyTokens/this.budget.conversationBudget)*100).toFixed(1)}% of ${this.budget.conversationBudget})`);
+      lines.push(`   System:       ${systemTokens.toString().padStart(4)} tokens (${this.formatShare(systemTokens, this.budget.systemPromptBudget)}% of ${this.budget.systemPromptBudget})`);
+      lines.push(`   Memory:       ${memoryTokens.toString().padStart(4)} tokens (${this.formatShare(memoryTokens, budget.memoryBudget)}% of ${budget.memoryBudget})`);
+      lines.push(`   Knowledge:    ${knowledgeTokens.toString().padStart(4)} tokens (${this.formatShare(knowledgeTokens, budget.knowledgeBudget)}% of ${budget.knowledgeBudget})`);
+      lines.push(`   Conversation: ${historyTokens.toString().padStart(4)} tokens (${this.formatShare(historyTokens, budget.conversationBudget)}% of ${budget.conversationBudget})`);
+      lines.push(`   Framing:      ${framingTokens.toString().padStart(4)} tokens (roles, separators, headers)`);
       lines.push(`   ${'─'.repeat(30)}`);
       lines.push(`   TOTAL:        ${currentTokens.toString().padStart(4)} / ${this.budget.maxTokens} tokens`);
       lines.push(`   Available:    ${(available - currentTokens).toString().padStart(4)} tokens remaining`);
       lines.push(`   Safety margin: ${this.budget.safetyMargin} tokens`);
 
+      if (truncations.length > 0) {
+        lines.push('');
+        lines.push(`   ✂️  TRUNCATED to fit (order: ${this.truncationPriority.join(' > ')}):`);
+        truncations.forEach(truncation => lines.push(`   ${truncation}`));
+      }
+
       // 6. Visual Progress Bar
       const used = currentTokens;
       const max = this.budget.maxTokens;
@@ -271,57 +348,181 @@ IMPORTANT RULES:
 
     return {
       systemPrompt: this.formatSystemPromptWithMemoryAndKnowledge(this.systemPrompt, selectedMemories, selectedKnowledge),
+      input,
       memoryEntries: selectedMemories,
       knowledgeEntries: selectedKnowledge,
       conversationHistory: compressedHistory,
+      query,
       totalTokens: currentTokens,
       debugInfo
     };
   }
 
   /**
-   * Select memory entries that fit within budget (most recent first)
+   * Budgets of this turn: the allocator rebalances the memory, knowledge and conversation shares by demand
    */
-  private selectMemoryEntries(
-    entries: MemoryEntry[],
-    budget: number
-  ): MemoryEntry[] {
-    const selected: MemoryEntry[] = [];
-    let currentTokens = 0;
+  private allocateBudget(
+    history: Message[],
+    memories: MemoryEntry[],
+    knowledge: Array<KnowledgeEntry | KnowledgePassage>
+  ): { budget: ContextBudget; allocation?: BudgetAllocation } {
+    if (!this.allocator) {
+      return { budget: this.budget };
+    }
 
-    // Memories are already sorted by date (most recent first) from MemoryService
-    for (const entry of entries) {
-      const entryTokens = TokenCounter.countMemoryEntry(entry);
+    const allocation = this.allocator.allocate(
+      {
+        memory: this.budget.memoryBudget,
+        knowledge: this.budget.knowledgeBudget,
+        conversation: this.budget.conversationBudget
+      },
+      {
+        memory: memories.reduce((total, entry) => total + this.countMemoryLine(entry), 0),
+        knowledge: knowledge.reduce((total, entry) => total + this.countKnowledgeBlock(entry), 0),
+        conversation: this.countHistory(history)
+      }
+    );
 
-      if (currentTokens + entryTokens <= budget) {
-        selected.push(entry);
-        currentTokens += entryTokens;
-      } else {
-        break; // Budget exhausted
+    return {
+      budget: {
+        ...this.budget,
+        memoryBudget: allocation.budgets.memory,
+        knowledgeBudget: allocation.budgets.knowledge,
+        conversationBudget: allocation.budgets.conversation
+      },
+      allocation
+    };
+  }
+
+  /**
+   * Compress the history with the configured strategy, within the budget left by the rest of the prompt
+   */
+  private compressHistory(
+    history: Message[],
+    budget: number,
+    alreadyUsedTokens: number,
+    query: string
+  ): Promise<CompressionResult> {
+    const remaining = this.budget.maxTokens - this.budget.safetyMargin - alreadyUsedTokens;
+    return this.strategy.compress({
+      messages: history,
+      budget: Math.min(budget, remaining),
+      query,
+      countMessage: message => this.countHistoryMessage(message)
+    });
+  }
+
+  /**
+   * Guaranteed fit: while the prompt exceeds the budget, shorten the largest item of each kind (TRUNCATION_PRIORITY order)
+   * to what the excess allows, keeping its head and tail around a "[...truncated N tokens...]" marker;
+   * items too small to keep the marker are dropped. Returns one line per cut
+   */
+  private truncateToFit(parts: ContextParts, available: number, tiers?: Map<Message, HistoryTier>): string[] {
+    const truncations: string[] = [];
+    let excess = this.countParts(parts) - available;
+
+    for (const target of this.truncationPriority) {
+      while (excess > 0) {
+        const candidates = this.truncationCandidates(parts, target, tiers)
+          .map(candidate => ({ candidate, tokens: TokenCounter.countText(candidate.content) }))
+          .filter(({ tokens }) => tokens > 0);
+        if (candidates.length === 0) {
+          break;
+        }
+
+        const { candidate, tokens } = candidates.reduce((a, b) => (b.tokens > a.tokens ? b : a));
+        const truncated = TextTruncator.truncateMiddle(candidate.content, tokens - excess);
+        candidate.replace(truncated.text);
+        truncations.push(truncated.text
+          ? `${candidate.label}: ${tokens} → ${TokenCounter.countText(truncated.text)} tokens (${truncated.truncatedTokens} cut from the middle)`
+          : `${candidate.label}: ${tokens} tokens dropped`);
+
+        excess = this.countParts(parts) - available;
       }
     }
 
-    return selected;
+    return truncations;
+  }
+
+  private truncationCandidates(
+    parts: ContextParts,
+    target: TruncationTarget,
+    tiers?: Map<Message, HistoryTier>
+  ): TruncationCandidate[] {
+    switch (target) {
+      case 'history':
+        return parts.history.map((message, i) => ({
+          label: `History message ${i + 1} [${message.role}]`,
+          content: message.content,
+          replace: (text: string) => {
+            if (!text) {
+              parts.history.splice(i, 1);
+              return;
+            }
+            const copy = { ...message, content: text };
+            const tier = tiers?.get(message);
+            if (tier) {
+              tiers!.set(copy, tier);
+            }
+            parts.history[i] = copy;
+          }
+        }));
+      case 'knowledge':
+        return parts.knowledge.map((entry, i) => ({
+          label: `Knowledge [${entry.id}]`,
+          content: entry.content,
+          replace: (text: string) => {
+            if (text) {
+              parts.knowledge[i] = { ...entry, content: text };
+            } else {
+              parts.knowledge.splice(i, 1);
+            }
+          }
+        }));
+      case 'memory':
+        return parts.memories.map((entry, i) => ({
+          label: `Memory [${entry.category}]`,
+          content: entry.content,
+          replace: (text: string) => {
+            if (text) {
+              parts.memories[i] = { ...entry, content: text };
+            } else {
+              parts.memories.splice(i, 1);
+            }
+          }
+        }));
+      case 'query':
+        return [{
+          label: 'Current query',
+          content: parts.query,
+          replace: (text: string) => {
+            parts.query = text;
+          }
+        }];
+    }
+  }
+
+  private countParts(parts: ContextParts): number {
+    return this.countInput(this.renderInput(parts.memories, parts.knowledge, parts.history, parts.query));
   }
 
   /**
-   * Select knowledge entries that fit within budget
+   * Select memory entries that fit within budget (best ranked first)
    */
-  private selectKnowledgeEntries(
-    entries: KnowledgeEntry[],
+  private selectMemoryEntries(
+    entries: Array<MemoryEntry | RankedMemory>,
     budget: number
-  ): KnowledgeEntry[] {
-    const selected: KnowledgeEntry[] = [];
+  ): Array<MemoryEntry | RankedMemory> {
+    const selected: Array<MemoryEntry | RankedMemory> = [];
     let currentTokens = 0;
 
+    // Memories arrive best first (ranked by MemoryRanker); an entry that does not fit leaves room for shorter ones
     for (const entry of entries) {
-      const entryTokens = TokenCounter.countKnowledgeEntry(entry);
+      const entryTokens = this.countMemoryLine(entry);
 
       if (currentTokens + entryTokens <= budget) {
         selected.push(entry);
         currentTokens += entryTokens;
-      } else {
-        break; // Budget exhausted
       }
     }
 
@@ -329,179 +530,224 @@ IMPORTANT RULES:
   }
 
   /**
-   * Prune conversation history to fit within budget (FIFO removal)
+   * Select knowledge passages that fit within budget, then merge passages cut from the same entry
+   * When not everything fits, higher-priority entries are packed first (retrieval rank breaks ties);
+   * the selected passages keep their retrieval order
    */
-  private pruneConversationHistory(
-    history: Message[],
-    budget: number,
-    alreadyUsedTokens: number
-  ): Message[] {
-    // Always include the most recent messages
-    // Remove oldest messages first when budget is exceeded
-
-    const remaining = this.budget.maxTokens - this.budget.safetyMargin - alreadyUsedTokens;
-    const actualBudget = Math.min(budget, remaining);
-
-    if (history.length === 0) {
-      return [];
+  private selectKnowledgeEntries(
+    entries: Array<KnowledgeEntry | KnowledgePassage>,
+    budget: number
+  ): KnowledgeEntry[] {
+    const candidates = entries.map((entry, rank) => ({
+      passage: this.toPassage(entry),
+      tokens: this.countKnowledgeBlock(entry),
+      rank
+    }));
+
+    const totalTokens = candidates.reduce((sum, candidate) => sum + candidate.tokens, 0);
+    if (totalTokens > budget) {
+      candidates.sort((a, b) => (b.passage.priority ?? 0) - (a.passage.priority ?? 0) || a.rank - b.rank);
     }
 
-    // Start from most recent and work backwards
-    const pruned: Message[] = [];
+    const selected: typeof candidates = [];
     let currentTokens = 0;
 
-    for (let i = history.length - 1; i >= 0; i--) {
-      const message = history[i];
-      const messageTokens = TokenCounter.countMessage(message);
-
-      // Keep message if:
-      // 1. It fits in the token budget, OR
-      // 2. We haven't reached MIN_RECENT_MESSAGES yet
-      const needsMoreMessages = pruned.length < CONFIG.MIN_RECENT_MESSAGES;
-      const fitsInBudget = currentTokens + messageTokens <= actualBudget;
-
-      if (fitsInBudget || needsMoreMessages) {
-        pruned.unshift(message); // Add to front
-        currentTokens += messageTokens;
-      } else {
-        // Budget exhausted, stop adding older messages
-        break;
+    for (const candidate of candidates) {
+      if (currentTokens + candidate.tokens <= budget) {
+        selected.push(candidate);
+        currentTokens += candidate.tokens;
       }
+      // Otherwise skip it: a smaller passage further down may still fit
     }
 
-    return pruned;
+    selected.sort((a, b) => a.rank - b.rank);
+    return this.mergePassages(selected.map(candidate => candidate.passage));
   }
 
   /**
-   * Summarize conversation history to fit within budget
-   * Keeps recent messages, summarizes old ones
+   * Group passages by parent entry (best-ranked entry first) and stitch adjacent chunks,
+   * so each entry is rendered once and cited by its parent id
    */
-  private async summarizeConversationHistory(
-    history: Message[],
-    budget: number,
-    alreadyUsedTokens: number
-  ): Promise<{ messages: Message[]; tokens: number }> {
-    const debug = process.env.DEBUG === 'true';
-    const remaining = this.budget.maxTokens - this.budget.safetyMargin - alreadyUsedTokens;
-    const actualBudget = Math.min(budget, remaining);
-
-    if (history.length === 0) {
-      return { messages: [], tokens: 0 };
+  private mergePassages(passages: KnowledgePassage[]): KnowledgeEntry[] {
+    const groups = new Map<string, KnowledgePassage[]>();
+    for (const passage of passages) {
+      const group = groups.get(passage.parentId) || [];
+      group.push(passage);
+      groups.set(passage.parentId, group);
     }
 
-    // Always keep recent messages (work backwards)
-    const recentMessages: Message[] = [];
-    let recentTokens = 0;
-
-    for (let i = history.length - 1; i >= 0; i--) {
-      const message = history[i];
-      const messageTokens = TokenCounter.countMessage(message);
+    return Array.from(groups.values(), group => {
+      group.sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+      const runs: string[] = [];
+      let run = group[0].content;
+      let runEnd = group[0].end;
+
+      for (let i = 1; i < group.length; i++) {
+        const passage = group[i];
+        if (passage.chunkIndex === group[i - 1].chunkIndex + 1) {
+          // Adjacent chunk: append only the part not already covered by the overlap
+          run += passage.start < runEnd
+            ? passage.content.slice(runEnd - passage.start)
+            : ' ' + passage.content;
+          runEnd = Math.max(runEnd, passage.end);
+        } else {
+          runs.push(run);
+          run = passage.content;
+          runEnd = passage.end;
+        }
+      }
+      runs.push(run);
 
-      // Keep message if:
-      // 1. It fits in the token budget, OR
-      // 2. We haven't reached MIN_RECENT_MESSAGES yet
-      const needsMoreMessages = recentMessages.length < CONFIG.MIN_RECENT_MESSAGES;
-      const fitsInBudget = recentTokens + messageTokens <= actualBudget;
+      // Keep the parent's metadata, drop the passage bookkeeping
+      const { parentId, chunkIndex, chunkCount, start, end, ...entry } = group[0];
+      return { ...entry, id: parentId, content: runs.join('\n[...]\n') };
+    });
+  }
 
-      if (fitsInBudget || needsMoreMessages) {
-        recentMessages.unshift(message);
-        recentTokens += messageTokens;
-      } else {
-        break;
-      }
+  private toPassage(entry: KnowledgeEntry | KnowledgePassage): KnowledgePassage {
+    if ('parentId' in entry) {
+      return entry;
     }
+    // Whole entries are treated as a single passage
+    return { ...entry, parentId: entry.id, chunkIndex: 0, chunkCount: 1, start: 0, end: entry.content.length };
+  }
 
-    // If all messages fit, no summarization needed
-    if (recentMessages.length === history.length) {
-      return { messages: recentMessages, tokens: recentTokens };
-    }
+  /**
+   * Format system prompt with memory and knowledge entries (the system sections joined, as displayed)
+   */
+  private formatSystemPromptWithMemoryAndKnowledge(
+    basePrompt: string,
+    memories: MemoryEntry[],
+    knowledge: KnowledgeEntry[]
+  ): string {
+    return this.formatSystemSections(basePrompt, memories, knowledge).join('\n\n');
+  }
 
-    // Determine how many old messages to summarize
-    const oldMessages = history.slice(0, history.length - recentMessages.length);
+  /**
+   * System sections in order: base prompt, memories (highest priority), knowledge
+   */
+  private formatSystemSections(basePrompt: string, memories: MemoryEntry[], knowledge: KnowledgeEntry[]): string[] {
+    const sections = [basePrompt];
+    if (memories.length > 0) {
+      sections.push(this.formatMemorySection(memories));
+    }
+    if (knowledge.length > 0) {
+      sections.push(this.formatKnowledgeSection(knowledge));
+    }
+    if (memories.length === 0 && knowledge.length === 0) {
+      sections.push(ContextManager.NO_CONTEXT_NOTE);
+    }
+    return sections;
+  }
 
-    // Only summarize if we have enough old messages to make it worthwhile
-    // (unless ALLOW_SUMMARIZATION_FALLBACK is disabled, then always attempt summarization)
-    const oldMessagesTokens = TokenCounter.countMessages(oldMessages);
-    const shouldSummarize = this.summarizationService.shouldSummarize(oldMessages.length, oldMessagesTokens);
+  /**
+   * Render the agent input: system prompt, memory and knowledge as separate system items,
+   * then the summaries and previous turns (without the current query), then the current user message
+   */
+  renderInput(
+    memories: MemoryEntry[],
+    knowledge: KnowledgeEntry[],
+    previousMessages: Message[],
+    currentQuery: string
+  ): ContextInputItem[] {
+    return [
+      ...this.formatSystemSections(this.systemPrompt, memories, knowledge)
+        .map((content): ContextInputItem => ({ role: 'system', content })),
+      ...previousMessages.map(message => this.toInputItem(message)),
+      { role: 'user', content: currentQuery }
+    ];
+  }
 
-    if (debug) {
-      console.log(`   [Summarization check] Old messages: ${oldMessages.length} (${oldMessagesTokens} tokens)`);
-      console.log(`   [Summarization check] shouldSummarize: ${shouldSummarize} (requires >=4 messages AND >=100 tokens)`);
-      console.log(`   [Summarization check] ALLOW_SUMMARIZATION_FALLBACK: ${CONFIG.ALLOW_SUMMARIZATION_FALLBACK}`);
+  // Summaries stay system items; assistant turns are completed output messages
+  private toInputItem(message: Message): ContextInputItem {
+    switch (message.role) {
+      case 'system':
+        return { role: 'system', content: message.content };
+      case 'user':
+        return { role: 'user', content: message.content };
+      case 'assistant':
+        return { role: 'assistant', status: 'completed', content: [{ type: 'output_text', text: message.content }] };
     }
+  }
 
-    if (CONFIG.ALLOW_SUMMARIZATION_FALLBACK && !shouldSummarize) {
-      // Just prune instead (fallback enabled and conditions not met)
-      if (debug) {
-        console.log(`   ℹ️  Falling back to pruning: ${oldMessages.length} messages (${oldMessagesTokens} tokens) below threshold`);
-        console.log(`   ℹ️  Keeping only recent messages (no summary created)`);
-      }
-      return { messages: recentMessages, tokens: recentTokens };
+  private inputItemText(item: ContextInputItem): string {
+    if (typeof item.content === 'string') {
+      return item.content;
     }
-
-    if (!shouldSummarize && debug) {
-      console.log(`   ⚠️  Forcing summarization despite low message count (ALLOW_SUMMARIZATION_FALLBACK=false)`);
+    let text = '';
+    for (const part of item.content) {
+      text += 'text' in part && typeof part.text === 'string' ? part.text : '';
     }
+    return text;
+  }
 
-    // Calculate target token count for summary (aim for 30% of original)
-    const targetSummaryTokens = Math.floor(oldMessagesTokens * 0.3);
+  private isCurrentQuery(message: Message | undefined, currentQuery: string): boolean {
+    return message !== undefined && message.role === 'user' && message.content === currentQuery;
+  }
 
-    try {
-      // Summarize old messages
-      const summary = await this.summarizationService.summarizeMessages(
-        oldMessages,
-        targetSummaryTokens
-      );
+  private formatMemorySection(memories: MemoryEntry[]): string {
+    return ContextManager.MEMORY_HEADER + memories.map(entry => this.formatMemoryLine(entry)).join('\n');
+  }
 
-      const summaryTokens = TokenCounter.countMessage(summary);
+  private formatKnowledgeSection(knowledge: KnowledgeEntry[]): string {
+    return ContextManager.KNOWLEDGE_HEADER + knowledge.map(entry => this.formatKnowledgeBlock(entry)).join('\n\n');
+  }
 
-      // Check if summary + recent messages fit in budget
-      if (summaryTokens + recentTokens <= actualBudget) {
-        return {
-          messages: [summary, ...recentMessages],
-          tokens: summaryTokens + recentTokens
-        };
-      } else {
-        // Summary too large, just use recent messages
-        return { messages: recentMessages, tokens: recentTokens };
-      }
-    } catch (error) {
-      console.error('Summarization failed, falling back to pruning:', error);
-      // Fallback to pruning
-      return { messages: recentMessages, tokens: recentTokens };
-    }
+  private formatMemoryLine(entry: MemoryEntry): string {
+    return `[${entry.category}] ${entry.content}`;
+  }
+
+  // Passages are cited by their parent id, the id they are rendered under after merging
+  private formatKnowledgeBlock(entry: KnowledgeEntry | KnowledgePassage): string {
+    const citationId = 'parentId' in entry ? entry.parentId : entry.id;
+    return `### [${citationId}] ${entry.title}\n${entry.content}`;
   }
 
   /**
-   * Format system prompt with memory and knowledge entries
+   * Count the rendered agent input exactly: every item as a chat message, plus reply priming
    */
-  private formatSystemPromptWithMemoryAndKnowledge(
-    basePrompt: string,
-    memories: MemoryEntry[],
-    knowledge: KnowledgeEntry[]
-  ): string {
-    let result = basePrompt;
+  private countInput(input: ContextInputItem[]): number {
+    return TokenCounter.countChat(input.map(item => ({ role: item.role, content: this.inputItemText(item) })));
+  }
 
-    // Add memories first (highest priority)
-    if (memories.length > 0) {
-      const memoryText = memories
-        .map(entry => `[${entry.category}] ${entry.content}`)
-        .join('\n');
-      result += `\n\n## Important Context (from Memory):\n\n${memoryText}`;
-    }
+  /**
+   * Tokens that do not depend on the selected entries: system prompt and query framing, reply priming
+   */
+  private countFixedFraming(currentQuery: string): number {
+    return TokenCounter.countChat([
+      { role: 'system', content: '' },
+      { role: 'user', content: currentQuery }
+    ]);
+  }
 
-    // Add knowledge entries
-    if (knowledge.length > 0) {
-      const knowledgeText = knowledge
-        .map(entry => `### ${entry.title}\n${entry.content}`)
-        .join('\n\n');
-      result += `\n\n## Knowledge Base:\n\n${knowledgeText}`;
-    }
+  // Sections are separate system items, so they carry their own message framing
+  private countMemorySection(memories: MemoryEntry[]): number {
+    return memories.length > 0 ? TokenCounter.countMessage({ role: 'system', content: this.formatMemorySection(memories) }) : 0;
+  }
 
-    if (memories.length === 0 && knowledge.length === 0) {
-      result += '\n\n[No relevant context found]';
-    }
+  private countKnowledgeSection(knowledge: KnowledgeEntry[]): number {
+    return knowledge.length > 0 ? TokenCounter.countMessage({ role: 'system', content: this.formatKnowledgeSection(knowledge) }) : 0;
+  }
+
+  // Per-entry counts include the separator that joins the entry to the previous one
+  private countMemoryLine(entry: MemoryEntry): number {
+    return TokenCounter.countText(this.formatMemoryLine(entry) + '\n');
+  }
+
+  private countKnowledgeBlock(entry: KnowledgeEntry | KnowledgePassage): number {
+    return TokenCounter.countText(this.formatKnowledgeBlock(entry) + '\n\n');
+  }
+
+  private formatShare(tokens: number, budget: number): string {
+    return budget > 0 ? ((tokens / budget) * 100).toFixed(1) : '0.0';
+  }
+
+  private countHistoryMessage(message: Message): number {
+    return TokenCounter.countMessage(message);
+  }
 
-    return result;
+  private countHistory(messages: Message[]): number {
+    return messages.reduce((total, msg) => total + this.countHistoryMessage(msg), 0);
   }
 }
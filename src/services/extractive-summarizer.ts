@@ -0,0 +1,205 @@
+/**
+ * Extractive Summarizer - offline alternative to SummarizationService
+ * Keeps the most salient sentences of the old messages (term frequency, named entities, numbers)
+ * within a target token count; no network access
+ */
+
+import { Message } from '../types/index.js';
+import { Summarizer } from './summarization.js';
+import { TextProcessor } from '../utils/text-processing.js';
+import { TokenCounter } from '../utils/token-counter.js';
+
+interface ScoredSentence {
+  text: string;
+  role: Message['role'];
+  order: number;
+  score: number;
+  tokens: number;
+}
+
+export class ExtractiveSummarizer implements Summarizer {
+  private static readonly MIN_TARGET_TOKENS = 20;
+  // Bonus per named entity or number, relative to the most frequent term
+  private static readonly DETAIL_WEIGHT = 0.5;
+
+  // Capitalized words that are not sentence-initial ("Alice", "PostgreSQL"), numbers with units ("14", "$29.99", "3.5GB")
+  private static readonly ENTITY_PATTERN = /(?<!^|[.!?]\s)\b[A-Z][\w-]*[A-Za-z0-9]\b/g;
+  private static readonly NUMBER_PATTERN = /[$€£]?\d+(?:[.,:]\d+)*(?:%|[a-zA-Z]{1,3}\b)?/g;
+
+  async summarizeMessages(messages: Message[], targetTokens: number): Promise<Message> {
+    if (messages.length === 0) {
+      throw new Error('Cannot summarize empty message array');
+    }
+
+    return {
+      role: 'system',
+      content: `[Previous conversation summary: ${this.summarizeText(messages, targetTokens)}]`,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Same threshold as the API summarizer: at least 2 exchanges and 100 tokens
+   */
+  shouldSummarize(messagesToSummarize: number, currentTokens: number): boolean {
+    return messagesToSummarize >= 4 && currentTokens > 100;
+  }
+
+  /**
+   * Highest-scoring sentences in conversation order, followed by details that did not fit
+   */
+  summarizeText(messages: Message[], targetTokens: number): string {
+    const budget = Math.max(targetTokens, ExtractiveSummarizer.MIN_TARGET_TOKENS);
+    const sentences = this.scoreSentences(messages);
+    if (sentences.length === 0) {
+      return `${messages.length} messages without text`;
+    }
+
+    // Greedy selection by score; smaller sentences further down may still fit
+    const selected: ScoredSentence[] = [];
+    let tokens = 0;
+    for (const sentence of [...sentences].sort((a, b) => b.score - a.score || a.order - b.order)) {
+      if (tokens + sentence.tokens <= budget) {
+        selected.push(sentence);
+        tokens += sentence.tokens;
+      }
+    }
+
+    // Even the best sentence is too long: keep its beginning
+    if (selected.length === 0) {
+      const best = sentences.reduce((a, b) => (b.score > a.score ? b : a));
+      return this.truncate(best.text, budget);
+    }
+
+    selected.sort((a, b) => a.order - b.order);
+    let summary = this.render(selected);
+
+    // Entities and numbers from dropped sentences, as long as they fit
+    const missing = this.extractDetails(sentences.filter(s => !selected.includes(s)).map(s => s.text).join(' '))
+      .filter(detail => !summary.includes(detail));
+    const mentioned: string[] = [];
+    for (const detail of missing) {
+      const candidate = `${summary} Also mentioned: ${[...mentioned, detail].join(', ')}.`;
+      if (TokenCounter.countText(candidate) > budget) {
+        break;
+      }
+      mentioned.push(detail);
+    }
+    if (mentioned.length > 0) {
+      summary += ` Also mentioned: ${mentioned.join(', ')}.`;
+    }
+
+    return summary;
+  }
+
+  private scoreSentences(messages: Message[]): ScoredSentence[] {
+    const texts = messages.map(message => this.unwrapSummary(message.content));
+    const frequencies = TextProcessor.calculateTermFrequency(texts.join('\n'));
+    const maxFrequency = Math.max(1, ...frequencies.values());
+
+    const sentences: ScoredSentence[] = [];
+    messages.forEach((message, i) => {
+      for (const text of this.splitSentences(texts[i])) {
+        const keywords = TextProcessor.extractKeywords(text);
+        if (keywords.length === 0) {
+          continue; // "Thanks!", "Ok."
+        }
+
+        // Average keyword frequency (length-normalized so long sentences do not win by default)
+        const termScore = keywords.reduce((sum, word) => sum + (frequencies.get(word) || 0), 0) / Math.sqrt(keywords.length);
+        const detailScore = this.extractDetails(text).length * maxFrequency * ExtractiveSummarizer.DETAIL_WEIGHT;
+
+        sentences.push({
+          text,
+          role: message.role,
+          order: sentences.length,
+          score: termScore + detailScore,
+          // Counted with the speaker label, which render() adds only when the speaker changes (an upper bound)
+          tokens: TokenCounter.countText(this.speakerLabel(message.role) + text + ' ')
+        });
+      }
+    });
+
+    return sentences;
+  }
+
+  /**
+   * "User: ... Assistant: ..." with the speaker named when it changes
+   */
+  private render(sentences: ScoredSentence[]): string {
+    const parts: string[] = [];
+    let previousRole: Message['role'] | null = null;
+
+    for (const sentence of sentences) {
+      parts.push(sentence.role !== previousRole ? this.speakerLabel(sentence.role) + sentence.text : sentence.text);
+      previousRole = sentence.role;
+    }
+
+    return parts.join(' ');
+  }
+
+  private speakerLabel(role: Message['role']): string {
+    return role === 'system' ? '' : `${role === 'user' ? 'User' : 'Assistant'}: `;
+  }
+
+  /**
+   * Named entities and numbers, in order of appearance
+   */
+  private extractDetails(text: string): string[] {
+    const details = [
+      ...Array.from(text.matchAll(ExtractiveSummarizer.ENTITY_PATTERN), match => ({ value: match[0], index: match.index ?? 0 })),
+      ...Array.from(text.matchAll(ExtractiveSummarizer.NUMBER_PATTERN), match => ({ value: match[0], index: match.index ?? 0 }))
+    ].sort((a, b) => a.index - b.index);
+
+    return Array.from(new Set(details.map(detail => detail.value)));
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Previous summaries are summarized by their content, without the wrapper
+   */
+  private unwrapSummary(content: string): string {
+    const match = content.match(/^\[Previous conversation(?: summary)?: ([\s\S]*)\]$/);
+    return match ? match[1] : content;
+  }
+
+  /**
+   * Beginning of the text within the budget, cut after a word (a single word over the budget is cut mid-word)
+   */
+  private truncate(text: string, budget: number): string {
+    const fits = (kept: string) => TokenCounter.countText(kept + '...') <= budget;
+    const words = text.split(/\s+/);
+
+    const wordCount = this.largestFitting(words.length, count => fits(words.slice(0, count).join(' ')));
+    if (wordCount > 0) {
+      return words.slice(0, wordCount).join(' ') + '...';
+    }
+
+    const charCount = this.largestFitting(words[0].length, count => fits(words[0].slice(0, count)));
+    return words[0].slice(0, charCount) + '...';
+  }
+
+  /**
+   * Largest n in [0, max] that fits, by binary search (counts grow with the kept text)
+   * Only values that were checked are returned, so the result fits even where BPE counts are not monotonic
+   */
+  private largestFitting(max: number, fits: (n: number) => boolean): number {
+    let low = 0;
+    let high = max;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits(middle)) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+}
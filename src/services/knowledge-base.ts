@@ -1,59 +1,281 @@
 /**
  * Knowledge Base Service
- * Loads and manages knowledge entries from JSON file
+ * Loads and manages knowledge entries from a file or a folder of files (JSON, JSONL, Markdown, text, CSV)
+ * Entries are also split into overlapping passages for retrieval
+ * Source files can be watched and reloaded while the agent is running
  */
 
-import { readFileSync } from 'fs';
-import { KnowledgeEntry } from '../types/index.js';
+import { existsSync, readFileSync, readdirSync, statSync, watch, FSWatcher } from 'fs';
+import { basename, dirname, join, relative, sep } from 'path';
+import { KnowledgeEntry, KnowledgePassage } from '../types/index.js';
+import { KnowledgeLoaderRegistry } from './knowledge-loaders.js';
+import { TextChunker } from '../utils/text-chunker.js';
+import { CONFIG } from '../config.js';
+
+export interface KnowledgeLoadError {
+  file: string;
+  message: string;
+}
+
+export interface KnowledgeDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+// Everything derived from one load, swapped as a whole on reload
+interface KnowledgeSnapshot {
+  entries: KnowledgeEntry[];
+  passages: KnowledgePassage[];
+  errors: KnowledgeLoadError[];
+}
 
 export class KnowledgeBaseService {
-  private entries: KnowledgeEntry[] = [];
+  private static readonly WATCH_DEBOUNCE_MS = 300;
+
+  private snapshot: KnowledgeSnapshot;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private readonly reloadListeners: Array<(diff: KnowledgeDiff) => void> = [];
+
+  constructor(
+    private readonly dataPath: string,
+    private readonly loaders: KnowledgeLoaderRegistry = KnowledgeLoaderRegistry.createDefault()
+  ) {
+    this.snapshot = this.loadKnowledgeBase(dataPath);
+  }
+
+  /**
+   * Re-read the source files and swap in the new entries
+   * The previous entries are kept when nothing valid could be loaded
+   */
+  reload(): KnowledgeDiff {
+    const next = this.loadKnowledgeBase(this.dataPath);
+
+    if (next.entries.length === 0 && next.errors.length > 0) {
+      console.warn('Knowledge base reload produced no valid entries. Keeping previous entries.');
+      return { added: [], removed: [], changed: [] };
+    }
+
+    const diff = KnowledgeBaseService.diffEntries(this.snapshot.entries, next.entries);
+    this.snapshot = next;
+
+    for (const listener of this.reloadListeners) {
+      listener(diff);
+    }
+
+    return diff;
+  }
+
+  /**
+   * Register a callback invoked after every successful reload (e.g. to rebuild retrieval indexes)
+   */
+  onReload(listener: (diff: KnowledgeDiff) => void): void {
+    this.reloadListeners.push(listener);
+  }
+
+  /**
+   * Watch the source files and reload on change (debounced, editors often write in several steps)
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const isDirectory = statSync(this.dataPath).isDirectory();
+    // Watch the parent folder of a single file: editors replace files on save, which ends a file watch
+    const target = isDirectory ? this.dataPath : dirname(this.dataPath);
+    const fileName = basename(this.dataPath);
+
+    this.watcher = watch(target, { recursive: isDirectory }, (_event, changed) => {
+      const name = changed ? changed.toString() : '';
+      if (!isDirectory && name !== fileName) {
+        return;
+      }
+      if (isDirectory && (basename(name).startsWith('.') || name.endsWith('.vectors.json'))) {
+        return; // Hidden files and the generated vector index
+      }
+
+      if (this.reloadTimer) {
+        clearTimeout(this.reloadTimer);
+      }
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        try {
+          const diff = this.reload();
+          if (diff.added.length + diff.removed.length + diff.changed.length > 0) {
+            console.log(`\n🔄 Knowledge base reloaded: ${KnowledgeBaseService.formatDiff(diff)}`);
+          }
+        } catch (error) {
+          console.error('Knowledge base reload failed:', error);
+        }
+      }, KnowledgeBaseService.WATCH_DEBOUNCE_MS);
+    });
+
+    // Do not keep the process alive just for the watcher
+    this.watcher.unref();
+  }
+
+  /**
+   * Stop watching the source files
+   */
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Compare two entry sets by id (changed = same id, different title, content or metadata)
+   */
+  static diffEntries(previous: KnowledgeEntry[], next: KnowledgeEntry[]): KnowledgeDiff {
+    const previousById = new Map(previous.map(entry => [entry.id, entry]));
+    const nextIds = new Set(next.map(entry => entry.id));
+
+    return {
+      added: next.filter(entry => !previousById.has(entry.id)).map(entry => entry.id),
+      removed: previous.filter(entry => !nextIds.has(entry.id)).map(entry => entry.id),
+      changed: next
+        .filter(entry => {
+          const old = previousById.get(entry.id);
+          return old !== undefined && JSON.stringify(old) !== JSON.stringify(entry);
+        })
+        .map(entry => entry.id)
+    };
+  }
 
-  constructor(dataPath: string) {
-    this.loadKnowledgeBase(dataPath);
+  /**
+   * One-line summary of a diff: "+2 (doc_46, doc_47), -1 (doc_3), ~0"
+   */
+  static formatDiff(diff: KnowledgeDiff): string {
+    const part = (symbol: string, ids: string[]) => ids.length > 0 ? `${symbol}${ids.length} (${ids.join(', ')})` : `${symbol}0`;
+    return [part('+', diff.added), part('-', diff.removed), part('~', diff.changed)].join(', ');
   }
 
   /**
-   * Load knowledge base from JSON file
+   * Load every supported file under the knowledge path
+   * Invalid files or records are reported and skipped instead of aborting the load
    */
-  private loadKnowledgeBase(dataPath: string): void {
-    try {
-      const data = readFileSync(dataPath, 'utf-8');
-      const parsed = JSON.parse(data);
+  private loadKnowledgeBase(dataPath: string): KnowledgeSnapshot {
+    if (!existsSync(dataPath)) {
+      throw new Error(`Failed to load knowledge base: ${dataPath} not found`);
+    }
+
+    const isDirectory = statSync(dataPath).isDirectory();
+    const root = isDirectory ? dataPath : dirname(dataPath);
+    const files = isDirectory ? this.listFiles(dataPath) : [dataPath];
 
-      // Validate structure
-      if (!Array.isArray(parsed)) {
-        throw new Error('Knowledge base must be an array');
+    const entries: KnowledgeEntry[] = [];
+    const errors: KnowledgeLoadError[] = [];
+    const seenIds = new Set<string>();
+    let loadedFiles = 0;
+
+    for (const filePath of files) {
+      const relativePath = relative(root, filePath).split(sep).join('/');
+      const loader = this.loaders.getLoader(filePath);
+
+      if (!loader) {
+        if (!isDirectory) {
+          errors.push({ file: relativePath, message: 'unsupported file format' });
+        }
+        continue; // Folders may contain unrelated files
       }
 
-      this.entries = parsed.map((entry: any) => {
-        if (!entry.id || !entry.title || !entry.content) {
-          throw new Error('Invalid entry: missing required fields (id, title, content)');
+      try {
+        const loaded = loader.load({ relativePath, content: readFileSync(filePath, 'utf-8') });
+        loadedFiles++;
+        errors.push(...loaded.errors.map(message => ({ file: relativePath, message })));
+
+        for (const entry of loaded.entries) {
+          if (seenIds.has(entry.id)) {
+            errors.push({ file: relativePath, message: `duplicate id "${entry.id}" skipped` });
+            continue;
+          }
+          seenIds.add(entry.id);
+          entries.push(entry);
         }
-        return {
-          id: entry.id,
-          title: entry.title,
-          content: entry.content
-        };
-      });
+      } catch (error) {
+        errors.push({ file: relativePath, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const passages = entries.flatMap(entry => this.chunkEntry(entry));
+
+    for (const error of errors) {
+      console.warn(`Knowledge base: ${error.file}: ${error.message}`);
+    }
+    console.log(`Loaded ${entries.length} knowledge entries (${passages.length} passages) from ${loadedFiles} file(s)`);
+
+    return { entries, passages, errors };
+  }
 
-      console.log(`Loaded ${this.entries.length} knowledge entries`);
-    } catch (error) {
-      throw new Error(`Failed to load knowledge base: ${error}`);
+  /**
+   * Recursively list files in a folder (sorted for stable ordering, hidden files and generated indexes skipped)
+   */
+  private listFiles(dir: string): string[] {
+    const files: string[] = [];
+
+    for (const name of readdirSync(dir).sort()) {
+      if (name.startsWith('.') || name.endsWith('.vectors.json')) {
+        continue;
+      }
+      const fullPath = join(dir, name);
+      if (statSync(fullPath).isDirectory()) {
+        files.push(...this.listFiles(fullPath));
+      } else {
+        files.push(fullPath);
+      }
     }
+
+    return files;
   }
 
   /**
    * Get all knowledge entries
    */
   getAllEntries(): KnowledgeEntry[] {
-    return this.entries;
+    return this.snapshot.entries;
   }
 
   /**
    * Get entry by ID
    */
   getEntryById(id: string): KnowledgeEntry | undefined {
-    return this.entries.find(entry => entry.id === id);
+    return this.snapshot.entries.find(entry => entry.id === id);
+  }
+
+  /**
+   * Get all retrievable passages
+   */
+  getAllPassages(): KnowledgePassage[] {
+    return this.snapshot.passages;
+  }
+
+  /**
+   * Files or records skipped during the last load
+   */
+  getLoadErrors(): KnowledgeLoadError[] {
+    return this.snapshot.errors;
+  }
+
+  /**
+   * Split an entry into overlapping passages that keep the parent id, title and metadata
+   */
+  private chunkEntry(entry: KnowledgeEntry): KnowledgePassage[] {
+    const chunks = TextChunker.split(entry.content, CONFIG.CHUNK_MAX_TOKENS, CONFIG.CHUNK_OVERLAP_TOKENS);
+
+    return chunks.map((chunk, index) => ({
+      ...entry,
+      id: `${entry.id}#${index}`,
+      content: chunk.text,
+      parentId: entry.id,
+      chunkIndex: index,
+      chunkCount: chunks.length,
+      start: chunk.start,
+      end: chunk.end
+    }));
   }
 }
@@ -0,0 +1,416 @@
+/**
+ * Knowledge Loaders
+ * Registry of file-format loaders used by KnowledgeBaseService (JSON, JSONL, Markdown, text, CSV)
+ */
+
+import { basename, extname } from 'path';
+import { KnowledgeEntry } from '../types/index.js';
+
+export interface KnowledgeSource {
+  relativePath: string; // Path relative to the knowledge root, with forward slashes
+  content: string;
+}
+
+export interface LoadedFile {
+  entries: KnowledgeEntry[];
+  errors: string[]; // Invalid records that were skipped
+}
+
+export interface KnowledgeLoader {
+  readonly name: string;
+  readonly extensions: string[];
+  load(source: KnowledgeSource): LoadedFile;
+}
+
+/**
+ * Stable id derived from a file path: "guides/Getting Started.md" -> "guides_getting_started"
+ */
+export function idFromPath(relativePath: string): string {
+  const withoutExtension = relativePath.slice(0, relativePath.length - extname(relativePath).length);
+  return withoutExtension
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Human-readable title from a file name: "getting-started.md" -> "Getting Started"
+ */
+export function titleFromPath(relativePath: string): string {
+  return basename(relativePath, extname(relativePath))
+    .replace(/[-_]+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, char => char.toUpperCase());
+}
+
+// A parsed JSON/JSONL record or a row of front-matter or CSV fields, before validation
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a field regardless of case and separators ("updatedAt", "updated_at", "Updated-At")
+ */
+function readField(record: RawRecord, name: string): unknown {
+  const normalized = name.toLowerCase();
+  const key = Object.keys(record).find(k => k.toLowerCase().replace(/[-_\s]/g, '') === normalized);
+  const value = key !== undefined ? record[key] : undefined;
+  return value === '' || value === null ? undefined : value;
+}
+
+// Scalars as text (JSON ids and priorities may be numbers); objects and arrays are not valid here
+function readScalar(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+}
+
+/**
+ * Validate a raw record and normalize it into a knowledge entry (metadata fields are optional)
+ */
+function toEntry(record: unknown, fallbackId: string, source: string): KnowledgeEntry | string {
+  if (!isRecord(record)) {
+    return 'not an object';
+  }
+  const title = typeof record.title === 'string' ? record.title.trim() : '';
+  const content = typeof record.content === 'string' ? record.content.trim() : '';
+  if (!title || !content) {
+    return 'missing required fields (title, content)';
+  }
+
+  const id = record.id === undefined || record.id === '' ? fallbackId : readScalar(record.id);
+  if (id === undefined) {
+    return 'invalid id (expected a string or a number)';
+  }
+
+  const rawSource = readField(record, 'source');
+  const entrySource = rawSource === undefined ? source : readScalar(rawSource);
+  if (entrySource === undefined) {
+    return 'invalid source (expected a string)';
+  }
+
+  const entry: KnowledgeEntry = { id, title, content, source: entrySource };
+
+  const tags = readField(record, 'tags');
+  if (tags !== undefined) {
+    // Arrays, "a, b" strings and "[a, b]" front-matter lists
+    const list = Array.isArray(tags) ? tags : [readScalar(tags)];
+    if (list.some(tag => typeof tag !== 'string')) {
+      return 'invalid tags (expected a list of strings or "a, b")';
+    }
+    entry.tags = (Array.isArray(tags) ? list as string[] : String(tags).replace(/^\[|\]$/g, '').split(','))
+      .map(tag => tag.trim().replace(/^(['"])(.*)\1$/, '$2').toLowerCase())
+      .filter(Boolean);
+  }
+
+  const updatedAt = readField(record, 'updatedAt');
+  if (updatedAt !== undefined) {
+    const date = typeof updatedAt === 'string' || typeof updatedAt === 'number' ? new Date(updatedAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      return `invalid updatedAt "${readScalar(updatedAt) ?? JSON.stringify(updatedAt)}"`;
+    }
+    entry.updatedAt = date.toISOString();
+  }
+
+  const audience = readField(record, 'audience');
+  if (audience !== undefined) {
+    if (typeof audience !== 'string') {
+      return 'invalid audience (expected a string)';
+    }
+    entry.audience = audience.trim().toLowerCase();
+  }
+
+  const priority = readField(record, 'priority');
+  if (priority !== undefined) {
+    const value = typeof priority === 'number' || typeof priority === 'string' ? Number(priority) : NaN;
+    if (!Number.isFinite(value)) {
+      return `invalid priority "${readScalar(priority) ?? JSON.stringify(priority)}"`;
+    }
+    entry.priority = value;
+  }
+
+  return entry;
+}
+
+/**
+ * JSON array of { id, title, content } (ids generated from the file path when missing)
+ */
+export class JsonLoader implements KnowledgeLoader {
+  readonly name = 'json';
+  readonly extensions = ['.json'];
+
+  load(source: KnowledgeSource): LoadedFile {
+    const parsed: unknown = JSON.parse(source.content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Knowledge base must be an array');
+    }
+
+    const result: LoadedFile = { entries: [], errors: [] };
+    const fileId = idFromPath(source.relativePath);
+
+    parsed.forEach((record: unknown, index) => {
+      const entry = toEntry(record, `${fileId}_${index + 1}`, source.relativePath);
+      if (typeof entry === 'string') {
+        result.errors.push(`entry ${index + 1}: ${entry}`);
+      } else {
+        result.entries.push(entry);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * One JSON object per line
+ */
+export class JsonLinesLoader implements KnowledgeLoader {
+  readonly name = 'jsonl';
+  readonly extensions = ['.jsonl', '.ndjson'];
+
+  load(source: KnowledgeSource): LoadedFile {
+    const result: LoadedFile = { entries: [], errors: [] };
+    const fileId = idFromPath(source.relativePath);
+
+    source.content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        const record: unknown = JSON.parse(line);
+        const entry = toEntry(record, `${fileId}_${index + 1}`, source.relativePath);
+        if (typeof entry === 'string') {
+          result.errors.push(`line ${index + 1}: ${entry}`);
+        } else {
+          result.entries.push(entry);
+        }
+      } catch (error) {
+        result.errors.push(`line ${index + 1}: invalid JSON`);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * One entry per Markdown file. Title from front-matter "title:", else the first heading, else the file name
+ * Other front-matter keys (id, tags, source, updatedAt, audience, priority) become entry fields
+ */
+export class MarkdownLoader implements KnowledgeLoader {
+  readonly name = 'markdown';
+  readonly extensions = ['.md', '.markdown'];
+
+  load(source: KnowledgeSource): LoadedFile {
+    const { attributes, body } = parseFrontMatter(source.content);
+    let content = body.trim();
+    let title = attributes.title;
+
+    if (!title) {
+      const heading = content.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+      if (heading && heading.index !== undefined) {
+        title = heading[1];
+        // The heading becomes the title, so drop it from the content
+        content = (content.slice(0, heading.index) + content.slice(heading.index + heading[0].length)).trim();
+      }
+    }
+
+    const entry = toEntry(
+      { ...attributes, title: title || titleFromPath(source.relativePath), content },
+      idFromPath(source.relativePath),
+      source.relativePath
+    );
+    return typeof entry === 'string'
+      ? { entries: [], errors: [entry] }
+      : { entries: [entry], errors: [] };
+  }
+}
+
+/**
+ * One entry per plain-text file, titled after the file name
+ */
+export class TextLoader implements KnowledgeLoader {
+  readonly name = 'text';
+  readonly extensions = ['.txt'];
+
+  load(source: KnowledgeSource): LoadedFile {
+    const entry = toEntry(
+      { title: titleFromPath(source.relativePath), content: source.content },
+      idFromPath(source.relativePath),
+      source.relativePath
+    );
+    return typeof entry === 'string'
+      ? { entries: [], errors: [entry] }
+      : { entries: [entry], errors: [] };
+  }
+}
+
+/**
+ * CSV with a header row, e.g. FAQ exports. Recognized columns (case-insensitive):
+ * id, title | question | name, content | answer | body | text, plus metadata columns
+ * (tags, source, updatedAt, audience, priority)
+ */
+export class CsvLoader implements KnowledgeLoader {
+  readonly name = 'csv';
+  readonly extensions = ['.csv'];
+
+  private static readonly COLUMN_ALIASES: Record<string, string[]> = {
+    id: ['id'],
+    title: ['title', 'question', 'name'],
+    content: ['content', 'answer', 'body', 'text']
+  };
+
+  load(source: KnowledgeSource): LoadedFile {
+    const rows = parseCsv(source.content);
+    if (rows.length === 0) {
+      throw new Error('CSV file is empty');
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const columnIndex = (field: string) =>
+      header.findIndex(column => CsvLoader.COLUMN_ALIASES[field].includes(column));
+
+    const idColumn = columnIndex('id');
+    const titleColumn = columnIndex('title');
+    const contentColumn = columnIndex('content');
+    if (titleColumn === -1 || contentColumn === -1) {
+      throw new Error('CSV header must include title/question and content/answer columns');
+    }
+
+    const result: LoadedFile = { entries: [], errors: [] };
+    const fileId = idFromPath(source.relativePath);
+
+    rows.slice(1).forEach((row, index) => {
+      if (row.every(cell => !cell.trim())) {
+        return; // Blank line
+      }
+      const rowNumber = index + 2; // 1-based, after the header
+      const metadata: Record<string, string> = {};
+      header.forEach((column, i) => {
+        if (i !== idColumn && i !== titleColumn && i !== contentColumn && row[i] !== undefined) {
+          metadata[column] = row[i].trim();
+        }
+      });
+      const entry = toEntry(
+        {
+          ...metadata,
+          id: idColumn !== -1 ? row[idColumn]?.trim() : undefined,
+          title: row[titleColumn],
+          content: row[contentColumn]
+        },
+        `${fileId}_${rowNumber}`,
+        source.relativePath
+      );
+      if (typeof entry === 'string') {
+        result.errors.push(`row ${rowNumber}: ${entry}`);
+      } else {
+        result.entries.push(entry);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Maps file extensions to loaders
+ */
+export class KnowledgeLoaderRegistry {
+  private readonly loaders = new Map<string, KnowledgeLoader>();
+
+  /**
+   * Registry with the built-in loaders
+   */
+  static createDefault(): KnowledgeLoaderRegistry {
+    const registry = new KnowledgeLoaderRegistry();
+    registry.register(new JsonLoader());
+    registry.register(new JsonLinesLoader());
+    registry.register(new MarkdownLoader());
+    registry.register(new TextLoader());
+    registry.register(new CsvLoader());
+    return registry;
+  }
+
+  /**
+   * Register a loader (replaces any loader previously registered for the same extensions)
+   */
+  register(loader: KnowledgeLoader): void {
+    for (const extension of loader.extensions) {
+      this.loaders.set(extension.toLowerCase(), loader);
+    }
+  }
+
+  /**
+   * Loader for a file, or undefined when the format is not supported
+   */
+  getLoader(filePath: string): KnowledgeLoader | undefined {
+    return this.loaders.get(extname(filePath).toLowerCase());
+  }
+}
+
+/**
+ * Minimal front-matter parser ("key: value" lines between --- fences)
+ */
+function parseFrontMatter(text: string): { attributes: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+    if (pair) {
+      attributes[pair[1].toLowerCase()] = pair[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+
+  return { attributes, body: text.slice(match[0].length) };
+}
+
+/**
+ * RFC 4180 CSV parser (quoted fields, escaped quotes, newlines inside quotes)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,176 @@
+/**
+ * Memory Consolidation - decides how a new memory relates to the stored ones of its category
+ * Near-duplicates are merged, contradictions supersede the older entry; anything else is a new entry
+ */
+
+import { MemoryEntry } from '../types/index.js';
+import { TextProcessor } from '../utils/text-processing.js';
+import { CONFIG } from '../config.js';
+
+export interface SimilarMemory {
+  entry: MemoryEntry;
+  similarity: number; // Jaccard similarity of the normalized keywords (0-1)
+}
+
+export type ConsolidationDecision =
+  | { action: 'add' }
+  | { action: 'merge'; target: SimilarMemory }           // Same fact said again: fold into the existing entry
+  | { action: 'supersede'; conflicts: SimilarMemory[] }; // Contradicted claim: the new entry wins
+
+// The attribute a statement sets ("name", "work at", "prefer for indentation") and the keywords of its value
+interface AttributeSlot {
+  attribute: string;
+  value: Set<string>;
+  kind: 'attribute' | 'choice' | 'taste'; // "is", "lives in" / "prefers", "uses" / "likes", "loves", "enjoys"
+  head: string;                           // Last keyword of the value ("mode" in "dark mode")
+}
+
+export class MemoryConsolidator {
+  // "does not", "never", "no longer": a negated statement contradicts its positive form
+  private static readonly NEGATION = /\b(not|no|never|nor|cannot)\b/;
+  // Subjects of most memories ("The user ...", "The project will ..."): shared words that say nothing about the claim
+  private static readonly GENERIC_SUBJECTS = new Set(['user', 'assistant', 'project']);
+  // "<attribute> is <value>" ("name is Sarah"), else "<relation> at|in|for|as <value>" ("lives in Lyon")
+  private static readonly ATTRIBUTE = /^(.*?)\b(?:is|are|was|were)\b(.*)$/;
+  private static readonly RELATION = /^(.*?)\b(at|in|for|as)\b(.*)$/;
+  // "<prefers|uses|likes> <object> [for|in|... <context>]": the verb and its context are the attribute, the object its value
+  private static readonly PREFERENCE =
+    /\b(prefer(?:s|red|ring)?|us(?:e|es|ed|ing)|lik(?:e|es|ed|ing)|lov(?:e|es|ed|ing)|enjoy(?:s|ed|ing)?)\s+(.+?)(?:\s+(for|in|at|as|over|to|with|when)\s+(.+))?$/;
+
+  constructor(
+    private readonly duplicateSimilarity: number = CONFIG.MEMORY_DUPLICATE_SIMILARITY,
+    private readonly conflictSimilarity: number = CONFIG.MEMORY_CONFLICT_SIMILARITY
+  ) {}
+
+  /**
+   * Compare a new memory with the active entries of its category
+   */
+  consolidate(category: string, content: string, existing: MemoryEntry[]): ConsolidationDecision {
+    const candidates = existing
+      .filter(entry => entry.category === category && !entry.supersededBy)
+      .map(entry => ({ entry, similarity: this.similarity(content, entry.content) }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const best = candidates[0];
+    if (best && best.similarity >= this.duplicateSimilarity && !this.contradicts(content, best)) {
+      return { action: 'merge', target: best };
+    }
+
+    // Similar but compatible claims ("likes hiking" after "likes Python") are kept side by side
+    const conflicts = candidates.filter(candidate => this.contradicts(content, candidate));
+    return conflicts.length > 0 ? { action: 'supersede', conflicts } : { action: 'add' };
+  }
+
+  /**
+   * A real conflict: opposite polarity about the same thing ("likes X" / "does not like X", from conflictSimilarity),
+   * or the same attribute with another value ("lives in Berlin" / "lives in Paris", "prefers tabs" / "prefers spaces")
+   */
+  private contradicts(content: string, candidate: SimilarMemory): boolean {
+    const negated = this.isNegated(content);
+    if (negated !== this.isNegated(candidate.entry.content)) {
+      return candidate.similarity >= this.conflictSimilarity;
+    }
+
+    const slot = MemoryConsolidator.slot(content);
+    const other = MemoryConsolidator.slot(candidate.entry.content);
+    if (!slot || !other || slot.attribute !== other.attribute ||
+        (slot.value.size === other.value.size && [...slot.value].every(term => other.value.has(term)))) {
+      return false;
+    }
+
+    switch (slot.kind) {
+      case 'attribute':
+        return true;
+      // One choice per slot: another kind of the same thing ("dark mode" / "light mode") or another single word
+      // ("tabs" / "spaces"); "prefers dark mode" and "prefers TypeScript" can both hold. Refusals do not exclude
+      // each other ("does not use tabs" / "does not use spaces")
+      case 'choice':
+        return !negated && (slot.head === other.head || (slot.value.size === 1 && other.value.size === 1));
+      // Many things can be liked at once ("likes Python" / "likes hiking"), but not two kinds of the same thing
+      case 'taste':
+        return !negated && slot.head === other.head;
+    }
+  }
+
+  /**
+   * Attribute slot of a statement, null when it does not name one ("The user likes hiking", "The user is vegetarian")
+   */
+  private static slot(text: string): AttributeSlot | null {
+    const normalized = MemoryConsolidator.expandContractions(text).toLowerCase();
+    const slot = (attribute: string, value: string[], kind: AttributeSlot['kind']): AttributeSlot =>
+      ({ attribute, value: new Set(value), kind, head: value[value.length - 1] });
+
+    const preference = normalized.match(MemoryConsolidator.PREFERENCE);
+    if (preference) {
+      const value = MemoryConsolidator.keywords(preference[2]);
+      if (value.length > 0) {
+        const verb = preference[1].startsWith('pref') ? 'prefer' : preference[1].startsWith('us') ? 'use' : 'like';
+        const context = preference[3] ? ` ${preference[3]} ${[...MemoryConsolidator.terms(preference[4])].sort().join(' ')}` : '';
+        return slot(verb + context, value, verb === 'like' ? 'taste' : 'choice');
+      }
+    }
+
+    const attribute = normalized.match(MemoryConsolidator.ATTRIBUTE);
+    if (attribute) {
+      const name = MemoryConsolidator.terms(attribute[1]);
+      const value = MemoryConsolidator.keywords(attribute[2]);
+      if (name.size > 0 && value.length > 0) {
+        return slot([...name].sort().join(' '), value, 'attribute');
+      }
+    }
+
+    const relation = normalized.match(MemoryConsolidator.RELATION);
+    if (relation) {
+      const name = MemoryConsolidator.terms(relation[1]);
+      const value = MemoryConsolidator.keywords(relation[3]);
+      if (name.size > 0 && value.length > 0) {
+        return slot(`${[...name].sort().join(' ')} ${relation[2]}`, value, 'attribute');
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Jaccard similarity of the keyword sets (negations, generic subjects and plural/3rd-person "s" ignored)
+   */
+  similarity(a: string, b: string): number {
+    const termsA = MemoryConsolidator.terms(a);
+    const termsB = MemoryConsolidator.terms(b);
+    if (termsA.size === 0 && termsB.size === 0) {
+      return 1;
+    }
+
+    let shared = 0;
+    for (const term of termsA) {
+      if (termsB.has(term)) {
+        shared++;
+      }
+    }
+    return shared / (termsA.size + termsB.size - shared);
+  }
+
+  /**
+   * Normalized keywords of a memory text (also used to look memories up by a free-text query)
+   */
+  static terms(text: string): Set<string> {
+    return new Set(MemoryConsolidator.keywords(text));
+  }
+
+  // Normalized keywords in order of appearance
+  private static keywords(text: string): string[] {
+    return TextProcessor.extractKeywords(MemoryConsolidator.expandContractions(text))
+      .filter(word => !MemoryConsolidator.NEGATION.test(word))
+      .map(word => (word.length > 3 ? word.replace(/s$/, '') : word))
+      .filter(word => !MemoryConsolidator.GENERIC_SUBJECTS.has(word));
+  }
+
+  private isNegated(text: string): boolean {
+    return MemoryConsolidator.NEGATION.test(MemoryConsolidator.expandContractions(text).toLowerCase());
+  }
+
+  // "doesn't" → "does not", so the negation is detected and "doesn" is not a keyword
+  private static expandContractions(text: string): string {
+    return text.replace(/n['’]t\b/gi, ' not').replace(/\bno longer\b/gi, 'not');
+  }
+}
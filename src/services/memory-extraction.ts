@@ -4,18 +4,40 @@
 
 import OpenAI from 'openai';
 import { Message } from '../types/index.js';
-import { CONFIG } from '../config.js';
+import { CONFIG, isMemoryCategory } from '../config.js';
+import { RuleBasedMemoryExtractor } from './rule-memory-extractor.js';
 
 export interface ExtractedMemory {
   category: string;
   content: string;
 }
 
-export class MemoryExtractionAgent {
+export type MemoryExtractorMode = 'llm' | 'rules';
+
+// What the chat loop needs from an extractor (LLM or offline rules)
+export interface MemoryExtractor {
+  extractMemory(userMessage: Message, assistantMessage: Message): Promise<ExtractedMemory | null>;
+  extractMemories(messages: Message[], context?: Message[]): Promise<ExtractedMemory[]>;
+  classifyQuery(query: string): Promise<string[]>;
+}
+
+/**
+ * Extractor for the configured mode (the rules mode never creates an API client)
+ */
+export function createMemoryExtractor(mode: MemoryExtractorMode = CONFIG.MEMORY_EXTRACTOR): MemoryExtractor {
+  return mode === 'rules' ? new RuleBasedMemoryExtractor() : new MemoryExtractionAgent();
+}
+
+export class MemoryExtractionAgent implements MemoryExtractor {
   private openai: OpenAI;
+  // Offline rules when the API call fails
+  private readonly fallback = new RuleBasedMemoryExtractor();
 
-  constructor() {
-    this.openai = new OpenAI({
+  /**
+   * @param client OpenAI client (tests pass a stub)
+   */
+  constructor(client?: OpenAI) {
+    this.openai = client ?? new OpenAI({
       apiKey: process.env.OPENAI_API_KEY
     });
   }
@@ -104,22 +126,108 @@ Is there anything worth remembering?`;
       const content = contentMatch[1].trim();
 
       // Validate category
-      if (!CONFIG.MEMORY_CATEGORIES.includes(category as any)) {
+      if (!isMemoryCategory(category)) {
         console.warn(`Invalid category extracted: ${category}. Defaulting to 'other'`);
         return { category: 'other', content };
       }
 
       return { category, content };
     } catch (error) {
-      console.error('Memory extraction error:', error);
-      return null;
+      if (process.env.DEBUG === 'true') {
+        console.log(`[DEBUG] Memory extraction failed, using rules: ${error instanceof Error ? error.message : error}`);
+      }
+      return this.fallback.extractMemory(userMessage, assistantMessage);
+    }
+  }
+
+  /**
+   * Analyze a window of exchanges at once (batch mode) and extract every memorable item
+   * The surrounding turns give context, e.g. a "yes, let's do that" answering a suggestion
+   * @param messages Buffered user and assistant messages, oldest first
+   * @param context Turn before the window (already analyzed): only read, so a reply to it keeps its meaning
+   * @returns Extracted memories (empty if nothing worth remembering)
+   */
+  async extractMemories(messages: Message[], context: Message[] = []): Promise<ExtractedMemory[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    const systemPrompt = `You are a memory extraction agent. Your task is to analyze a conversation and list every piece of important information that should be remembered for future conversations.
+
+PREDEFINED CATEGORIES:
+${CONFIG.MEMORY_CATEGORIES.map(cat => `- ${cat}`).join('\n')}
+
+RULES:
+1. Only extract information that is:
+   - Factual and verifiable
+   - Likely to be relevant in future conversations
+   - About the user, their preferences, decisions, or important context
+2. Use the whole conversation for context (a short answer may confirm an earlier suggestion); the EARLIER CONTEXT
+   was already analyzed: never extract from it, only use it to understand the new conversation
+3. One memory per distinct fact; if a fact changed during the conversation, keep only the final version
+4. Choose the most appropriate category from the predefined list
+5. Write each memory in third person (e.g., "The user prefers X" or "The project uses Y"), 1-2 sentences maximum
+6. If there's nothing worth remembering, return "NONE"
+
+RESPONSE FORMAT:
+One block per memory:
+CATEGORY: <category>
+CONTENT: <content>
+
+If nothing to remember, respond with:
+NONE`;
+
+    const toTranscript = (window: Message[]) => window
+      .filter(m => m.role !== 'system')
+      .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n');
+    const earlier = toTranscript(context);
+    const userPrompt = (earlier ? `EARLIER CONTEXT (already analyzed):\n${earlier}\n\n` : '') +
+      `Analyze this conversation:\n\n${toTranscript(messages)}\n\nWhat is worth remembering?`;
+
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.3,
+        max_tokens: 500
+      });
+
+      const result = response.choices[0]?.message?.content || '';
+      if (result.trim() === 'NONE') {
+        return [];
+      }
+
+      const memories: ExtractedMemory[] = [];
+      for (const match of result.matchAll(/CATEGORY:\s*(.+)\s*\n\s*CONTENT:\s*(.+)/gi)) {
+        const category = match[1].trim();
+        const content = match[2].trim();
+        const valid = isMemoryCategory(category);
+        if (!valid) {
+          console.warn(`Invalid category extracted: ${category}. Defaulting to 'other'`);
+        }
+        memories.push({ category: valid ? category : 'other', content });
+      }
+
+      if (memories.length === 0) {
+        console.warn('Memory extraction returned invalid format:', result);
+      }
+      return memories;
+    } catch (error) {
+      if (process.env.DEBUG === 'true') {
+        console.log(`[DEBUG] Batch memory extraction failed, using rules: ${error instanceof Error ? error.message : error}`);
+      }
+      return this.fallback.extractMemories(messages);
     }
   }
 
   /**
    * Classify a user query into relevant memory categories
    * @param query User's query
-   * @returns Array of relevant category names
+   * @returns Array of relevant category names (empty when none applies)
    */
   async classifyQuery(query: string): Promise<string[]> {
     const systemPrompt = `You are a query classifier. Analyze user queries and determine which memory categories are relevant.
@@ -139,7 +247,7 @@ CATEGORY DESCRIPTIONS:
 Select 1-3 most relevant categories for the query.
 
 RESPONSE FORMAT:
-Return only the category names, one per line.`;
+Return only the category names, one per line, or NONE if no category is relevant.`;
 
     const userPrompt = `Query: "${query}"
 
@@ -160,14 +268,15 @@ Which memory categories are relevant?`;
       const categories = result
         .split('\n')
         .map(line => line.trim().toLowerCase())
-        .filter(cat => CONFIG.MEMORY_CATEGORIES.includes(cat as any));
+        .filter(isMemoryCategory);
 
-      // If no valid categories, return all categories (search everything)
-      return categories.length > 0 ? categories : [...CONFIG.MEMORY_CATEGORIES];
+      // No valid category boosts nothing: the memories still compete on relevance
+      return categories;
     } catch (error) {
-      console.error('Query classification error:', error);
-      // Fallback: return all categories
-      return [...CONFIG.MEMORY_CATEGORIES];
+      if (process.env.DEBUG === 'true') {
+        console.log(`[DEBUG] Query classification failed, using rules: ${error instanceof Error ? error.message : error}`);
+      }
+      return this.fallback.classifyQuery(query);
     }
   }
 }
@@ -0,0 +1,109 @@
+/**
+ * Memory Ranker - scores memories against the current query
+ * Relevance, recency decay and importance are weighted; classified categories add a boost instead of filtering
+ */
+
+import { MemoryEntry, MemoryScore, RankedMemory } from '../types/index.js';
+import { HashedEmbedder } from '../utils/embeddings.js';
+import { MemoryConsolidator } from './memory-consolidation.js';
+import { CONFIG } from '../config.js';
+
+export type MemorySimilarity = 'lexical' | 'ngram';
+
+export interface MemoryRankerOptions {
+  similarity?: MemorySimilarity;
+  minRelevance?: number;
+  relevanceWeight?: number;
+  recencyWeight?: number;
+  importanceWeight?: number;
+  categoryBoost?: number;
+  halfLifeDays?: number;
+}
+
+export class MemoryRanker {
+  // Default importance by category (an entry's own importance takes precedence)
+  private static readonly CATEGORY_IMPORTANCE: Record<string, number> = {
+    instruction: 1.0,
+    user_preference: 0.8,
+    decision: 0.8,
+    user_info: 0.7,
+    project_context: 0.6,
+    fact: 0.5,
+    other: 0.3
+  };
+  // Each merged duplicate (the same fact said again) makes an entry more important
+  private static readonly MERGE_IMPORTANCE = 0.1;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private readonly options: Required<MemoryRankerOptions>;
+  private readonly embedder = new HashedEmbedder();
+
+  constructor(options: MemoryRankerOptions = {}) {
+    this.options = {
+      similarity: options.similarity ?? CONFIG.MEMORY_SIMILARITY,
+      minRelevance: options.minRelevance ?? CONFIG.MEMORY_MIN_RELEVANCE,
+      relevanceWeight: options.relevanceWeight ?? CONFIG.MEMORY_RELEVANCE_WEIGHT,
+      recencyWeight: options.recencyWeight ?? CONFIG.MEMORY_RECENCY_WEIGHT,
+      importanceWeight: options.importanceWeight ?? CONFIG.MEMORY_IMPORTANCE_WEIGHT,
+      categoryBoost: options.categoryBoost ?? CONFIG.MEMORY_CATEGORY_BOOST,
+      halfLifeDays: options.halfLifeDays ?? CONFIG.MEMORY_RECENCY_HALF_LIFE_DAYS
+    };
+  }
+
+  /**
+   * Rank memories for a query, best first
+   * A memory is a candidate when it is similar enough to the query or belongs to a classified category
+   * @param categories Categories the query was classified into (boost only)
+   */
+  rank(query: string, memories: MemoryEntry[], categories: string[] = [], now: number = Date.now()): RankedMemory[] {
+    const queryVector = this.options.similarity === 'ngram' ? this.embedder.embed(query) : null;
+
+    return memories
+      .map(entry => {
+        const similarity = queryVector
+          ? Math.max(HashedEmbedder.cosine(queryVector, this.embedder.embed(entry.content)), 0)
+          : this.lexicalSimilarity(query, entry.content);
+        const boosted = categories.includes(entry.category);
+        return { entry, similarity, boosted };
+      })
+      .filter(({ similarity, boosted }) => boosted || similarity >= this.options.minRelevance)
+      .map(({ entry, similarity, boosted }) => ({ ...entry, score: this.score(entry, similarity, boosted, now) }))
+      .sort((a, b) => b.score.total - a.score.total || new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  /**
+   * Score breakdown for debug output ("0.72 = relevance 0.40 + recency 0.12 + importance 0.20 + category 0.20")
+   */
+  static describe(score: MemoryScore): string {
+    return `${score.total.toFixed(2)} = relevance ${score.relevance.toFixed(2)} + recency ${score.recency.toFixed(2)}` +
+      ` + importance ${score.importance.toFixed(2)} + category ${score.categoryBoost.toFixed(2)}`;
+  }
+
+  private score(entry: MemoryEntry, similarity: number, boosted: boolean, now: number): MemoryScore {
+    const ageDays = Math.max(now - new Date(entry.date).getTime(), 0) / MemoryRanker.DAY_MS;
+    const recency = Math.pow(0.5, ageDays / this.options.halfLifeDays);
+
+    const score = {
+      relevance: this.options.relevanceWeight * similarity,
+      recency: this.options.recencyWeight * (isNaN(recency) ? 0 : recency),
+      importance: this.options.importanceWeight * this.importance(entry),
+      categoryBoost: boosted ? this.options.categoryBoost : 0
+    };
+    return { total: score.relevance + score.recency + score.importance + score.categoryBoost, ...score };
+  }
+
+  private importance(entry: MemoryEntry): number {
+    const base = entry.importance ?? MemoryRanker.CATEGORY_IMPORTANCE[entry.category] ?? 0.5;
+    return Math.min(base + (entry.merged?.length ?? 0) * MemoryRanker.MERGE_IMPORTANCE, 1);
+  }
+
+  // Share of the query keywords found in the memory
+  private lexicalSimilarity(query: string, content: string): number {
+    const queryTerms = MemoryConsolidator.terms(query);
+    if (queryTerms.size === 0) {
+      return 0;
+    }
+    const terms = MemoryConsolidator.terms(content);
+    return [...queryTerms].filter(term => terms.has(term)).length / queryTerms.size;
+  }
+}
@@ -2,16 +2,24 @@
  * Memory Service - Manages persistent memory storage
  */
 
-import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { MemoryEntry } from '../types/index.js';
+import { MemoryConsolidator } from './memory-consolidation.js';
+import { CONFIG } from '../config.js';
 
 export class MemoryService {
   private memories: MemoryEntry[] = [];
   private memoryPath: string;
   private nextId: number = 1;
 
-  constructor(memoryPath: string = './memory') {
+  /**
+   * @param consolidator Merges duplicates and resolves contradictions on save (null: always append)
+   */
+  constructor(
+    memoryPath: string = './memory',
+    private readonly consolidator: MemoryConsolidator | null = CONFIG.MEMORY_CONSOLIDATION ? new MemoryConsolidator() : null
+  ) {
     this.memoryPath = memoryPath;
     this.loadMemories();
   }
@@ -42,10 +50,12 @@ export class MemoryService {
 
           this.memories.push(memory);
 
-          // Track highest ID for generating new IDs
-          const idNum = parseInt(memory.id.replace('mem_', ''));
-          if (!isNaN(idNum) && idNum >= this.nextId) {
-            this.nextId = idNum + 1;
+          // Track highest ID for generating new IDs (forgotten ids still named in supersededBy included)
+          for (const id of [memory.id, memory.supersededBy ?? '']) {
+            const idNum = parseInt(id.replace('mem_', ''));
+            if (!isNaN(idNum) && idNum >= this.nextId) {
+              this.nextId = idNum + 1;
+            }
           }
         } catch (error) {
           console.error(`Failed to load memory file ${file}:`, error);
@@ -59,55 +69,205 @@ export class MemoryService {
   }
 
   /**
-   * Save a new memory entry
+   * Save a memory, consolidated with the stored entries of its category:
+   * a near-duplicate is merged into the existing entry, a contradiction supersedes the older entries
+   * @returns The entry that now holds the memory (the existing one when merged)
    */
   saveMemory(category: string, content: string): MemoryEntry {
-    const memory: MemoryEntry = {
-      id: `mem_${this.nextId.toString().padStart(3, '0')}`,
-      category,
-      content,
+    const decision = this.consolidator?.consolidate(category, content, this.memories) ?? { action: 'add' };
+    const date = new Date().toISOString();
+
+    try {
+      if (decision.action === 'merge') {
+        const entry = decision.target.entry;
+        // Keep the more detailed wording; the other one is recorded in the lineage
+        const [kept, other] = content.length > entry.content.length
+          ? [{ content, date }, { content: entry.content, date: entry.date }]
+          : [{ content: entry.content, date }, { content, date }];
+        entry.merged = [...(entry.merged ?? []), other];
+        entry.content = kept.content;
+        entry.date = kept.date;
+        this.writeMemory(entry);
+        console.log(`Merged duplicate memory into ${entry.id} (similarity ${decision.target.similarity.toFixed(2)})`);
+        return entry;
+      }
+
+      const memory: MemoryEntry = {
+        id: `mem_${this.nextId.toString().padStart(3, '0')}`,
+        category,
+        content,
+        date
+      };
+      this.nextId++;
+
+      if (decision.action === 'supersede') {
+        memory.supersedes = decision.conflicts.map(conflict => conflict.entry.id);
+      }
+      this.writeMemory(memory);
+      this.memories.push(memory);
+
+      if (decision.action === 'supersede') {
+        for (const { entry } of decision.conflicts) {
+          entry.supersededBy = memory.id;
+          this.writeMemory(entry);
+        }
+        console.log(`Saved memory: ${memory.id} (${category}), supersedes ${memory.supersedes!.join(', ')}`);
+      } else {
+        console.log(`Saved memory: ${memory.id} (${category})`);
+      }
+      return memory;
+    } catch (error) {
+      console.error(`Failed to save memory:`, error);
+      throw error;
+    }
+  }
+
+  private writeMemory(memory: MemoryEntry): void {
+    // Ensure memory directory exists
+    if (!existsSync(this.memoryPath)) {
+      mkdirSync(this.memoryPath, { recursive: true });
+    }
+
+    const filePath = join(this.memoryPath, `${memory.id}.json`);
+    writeFileSync(filePath, JSON.stringify(memory, null, 2), 'utf-8');
+  }
+
+  /**
+   * Change the content and/or category of a memory (the date is refreshed)
+   */
+  updateMemory(id: string, changes: { content?: string; category?: string }): MemoryEntry {
+    const memory = this.requireMemory(id);
+    const updated: MemoryEntry = {
+      ...memory,
+      content: changes.content?.trim() || memory.content,
+      category: changes.category || memory.category,
       date: new Date().toISOString()
     };
 
-    this.nextId++;
+    try {
+      this.writeMemory(updated);
+      this.memories[this.memories.indexOf(memory)] = updated;
+      console.log(`Updated memory: ${id}`);
+      return updated;
+    } catch (error) {
+      console.error(`Failed to update memory:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a memory, file included. The entries it superseded stay superseded (an older claim does not come back):
+   * they are handed to the entry that superseded it, if any, so the audit keeps their history
+   * @returns The deleted entry
+   */
+  deleteMemory(id: string): MemoryEntry {
+    const memory = this.requireMemory(id);
 
     try {
-      // Ensure memory directory exists
-      if (!existsSync(this.memoryPath)) {
-        mkdirSync(this.memoryPath, { recursive: true });
+      const filePath = join(this.memoryPath, `${memory.id}.json`);
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
       }
+      this.memories = this.memories.filter(m => m !== memory);
 
-      const filePath = join(this.memoryPath, `${memory.id}.json`);
-      writeFileSync(filePath, JSON.stringify(memory, null, 2), 'utf-8');
-      this.memories.push(memory);
-      console.log(`Saved memory: ${memory.id} (${category})`);
+      const successor = memory.supersededBy ? this.getMemoryById(memory.supersededBy) : undefined;
+      if (successor) {
+        const predecessors = this.memories.filter(m => m.supersededBy === memory.id);
+        for (const predecessor of predecessors) {
+          predecessor.supersededBy = successor.id;
+          this.writeMemory(predecessor);
+        }
+        successor.supersedes = [
+          ...(successor.supersedes ?? []).filter(supersededId => supersededId !== memory.id),
+          ...predecessors.map(m => m.id)
+        ];
+        if (successor.supersedes.length === 0) {
+          delete successor.supersedes;
+        }
+        this.writeMemory(successor);
+      }
+
+      console.log(`Deleted memory: ${memory.id}`);
       return memory;
     } catch (error) {
-      console.error(`Failed to save memory:`, error);
+      console.error(`Failed to delete memory:`, error);
       throw error;
     }
   }
 
   /**
-   * Get memories by category
+   * Get a memory by id
    */
-  getMemoriesByCategory(category: string): MemoryEntry[] {
+  getMemoryById(id: string): MemoryEntry | undefined {
+    return this.memories.find(m => m.id === id);
+  }
+
+  private requireMemory(id: string): MemoryEntry {
+    const memory = this.getMemoryById(id);
+    if (!memory) {
+      throw new Error(`Unknown memory "${id}" (see /memories)`);
+    }
+    return memory;
+  }
+
+  /**
+   * Memories matching a free-text description ("I work in healthcare"), best match first
+   * An entry matches when it contains at least half of the query keywords
+   * @param includeSuperseded Also search superseded entries (forgetting an older claim), active ones only by default
+   */
+  findMemories(query: string, includeSuperseded: boolean = false): MemoryEntry[] {
+    const queryTerms = MemoryConsolidator.terms(query);
+    if (queryTerms.size === 0) {
+      return [];
+    }
+
     return this.memories
-      .filter(m => m.category === category)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()); // Most recent first
+      .filter(m => includeSuperseded || !m.supersededBy)
+      .map(memory => {
+        const terms = MemoryConsolidator.terms(memory.content);
+        const matched = [...queryTerms].filter(term => terms.has(term)).length;
+        return { memory, score: matched / queryTerms.size };
+      })
+      .filter(({ score }) => score >= 0.5)
+      .sort((a, b) => b.score - a.score)
+      .map(({ memory }) => memory);
+  }
+
+  /**
+   * Text of a natural-language request to forget something ("forget that I work in healthcare"), or null
+   */
+  static parseForgetRequest(text: string): string | null {
+    const match = text.trim().match(/^(?:please\s+)?(?:forget|stop remembering|don['’]t remember)\s+(?:that\s+|about\s+|what\s+i\s+said\s+about\s+)?(.+?)[.!]?$/i);
+    return match ? match[1].trim() : null;
+  }
+
+  /**
+   * Get memories by category (superseded entries excluded)
+   */
+  getMemoriesByCategory(category: string): MemoryEntry[] {
+    return this.getMemoriesByCategories([category]);
   }
 
   /**
-   * Get memories by multiple categories
+   * Get memories by multiple categories (superseded entries excluded)
    */
   getMemoriesByCategories(categories: string[]): MemoryEntry[] {
     return this.memories
-      .filter(m => categories.includes(m.category))
+      .filter(m => categories.includes(m.category) && !m.supersededBy)
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()); // Most recent first
   }
 
   /**
-   * Get all memories
+   * Get the memories that can be injected (superseded entries excluded), most recent first
+   */
+  getActiveMemories(): MemoryEntry[] {
+    return this.memories
+      .filter(m => !m.supersededBy)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  /**
+   * Get all memories, superseded ones included (audit)
    */
   getAllMemories(): MemoryEntry[] {
     return this.memories.sort((a, b) =>
@@ -129,4 +289,49 @@ export class MemoryService {
   getCount(): number {
     return this.memories.length;
   }
+
+  /**
+   * Audit view: every active entry (of a category) with its lineage (merged duplicates, superseded entries and theirs)
+   */
+  formatAudit(category?: string): string[] {
+    const active = this.memories
+      .filter(m => !m.supersededBy && (!category || m.category === category))
+      .sort((a, b) => a.category.localeCompare(b.category) || new Date(b.date).getTime() - new Date(a.date).getTime());
+    const superseded = this.memories.filter(m => m.supersededBy && (!category || m.category === category)).length;
+
+    const lines = [`${active.length} active memories, ${superseded} superseded:`];
+    for (const entry of active) {
+      lines.push(...this.formatLineage(entry, 1));
+    }
+
+    // Entries superseded by a memory that was forgotten since
+    const orphaned = this.memories
+      .filter(m => m.supersededBy && !this.getMemoryById(m.supersededBy) && (!category || m.category === category));
+    for (const entry of orphaned) {
+      const [, ...lineage] = this.formatLineage(entry, 1);
+      lines.push(`   ${entry.id} [${entry.category}] ${entry.content} (${entry.date.slice(0, 10)}, superseded by forgotten ${entry.supersededBy})`, ...lineage);
+    }
+    return lines;
+  }
+
+  private formatLineage(entry: MemoryEntry, depth: number, visited = new Set<string>()): string[] {
+    const indent = '   '.repeat(depth);
+    const lines = [depth === 1
+      ? `${indent}${entry.id} [${entry.category}] ${entry.content} (${entry.date.slice(0, 10)})`
+      : `${indent}↳ supersedes ${entry.id}: ${entry.content} (${entry.date.slice(0, 10)})`];
+    visited.add(entry.id);
+
+    for (const merged of entry.merged ?? []) {
+      lines.push(`${indent}   ↳ merged: ${merged.content} (${merged.date.slice(0, 10)})`);
+    }
+    for (const id of entry.supersedes ?? []) {
+      const previous = this.memories.find(m => m.id === id);
+      if (!previous) {
+        lines.push(`${indent}   ↳ supersedes ${id} (missing)`);
+      } else if (!visited.has(id)) {
+        lines.push(...this.formatLineage(previous, depth + 1, visited));
+      }
+    }
+    return lines;
+  }
 }
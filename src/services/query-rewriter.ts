@@ -0,0 +1,177 @@
+/**
+ * Query Rewriter - contextualizes follow-up questions before retrieval
+ * "and what about for enterprise customers?" → "enterprise customers pricing plans"
+ * Everyday phrasings are also expanded with the words the knowledge base uses ("get my money back" → refund)
+ */
+
+import OpenAI from 'openai';
+import { Message } from '../types/index.js';
+import { TextProcessor } from '../utils/text-processing.js';
+import { CONFIG } from '../config.js';
+
+export type QueryRewriteMode = 'rules' | 'llm' | 'disabled';
+
+export interface RewrittenQuery {
+  original: string;
+  rewritten: string;       // Query used for retrieval (same as original when not a follow-up)
+  mode: QueryRewriteMode;  // Mode that produced the rewrite ('rules' when the LLM call failed)
+  carriedTerms: string[];  // Terms carried over from previous turns (rules mode)
+  expandedTerms: string[]; // Knowledge base words added for paraphrases in the query
+}
+
+export class QueryRewriter {
+  // A query with fewer keywords than this is treated as elliptical ("and for teams?")
+  private static readonly MIN_STANDALONE_KEYWORDS = 3;
+  private static readonly MAX_CARRIED_TERMS = 6;
+
+  // References that only make sense with the previous turns
+  private static readonly ANAPHORA = /\b(it|its|this|that|these|those|they|them|their|one|ones|same|there|he|she|him|her)\b/i;
+  private static readonly FOLLOW_UP_START = /^\s*(and|also|but|so|what about|how about|what if|same for|then|or)\b/i;
+
+  // Paraphrases that share no word with the entry they are about, and the terms to search for instead
+  private static readonly PARAPHRASES: Array<[RegExp, string[]]> = [
+    [/\b(money back|reimburs\w*|charge ?back)\b/i, ['refund', 'billing', 'payment']],
+    [/\b(how much|cost\w*|price\w*|pay for)\b/i, ['pricing', 'billing']],
+    [/\b(cancel\w*|downgrad\w*|upgrad\w*)\b/i, ['subscription', 'plans']],
+    [/\b(undelete|restore|get back (?:a|my|the) deleted)\b/i, ['trash', 'recovery']],
+    [/\b(download\w*|back ?up)\b/i, ['export']],
+    [/\b(phone|tablet|iphone|android)\b/i, ['mobile']],
+    [/\b(contact|reach|talk to) (?:you|someone|a human|an agent)\b/i, ['customer', 'support']]
+  ];
+
+  private openai: OpenAI | null = null;
+
+  constructor(private readonly mode: QueryRewriteMode = CONFIG.QUERY_REWRITE_MODE) {}
+
+  /**
+   * Rewrite the latest user query into a standalone retrieval query, expanded with the words of known paraphrases
+   * @param history Conversation so far (may already end with the query itself)
+   */
+  async rewrite(query: string, history: Message[]): Promise<RewrittenQuery> {
+    const unchanged: RewrittenQuery = { original: query, rewritten: query, mode: this.mode, carriedTerms: [], expandedTerms: [] };
+    return this.mode === 'disabled' ? unchanged : this.expand(await this.contextualize(query, history, unchanged));
+  }
+
+  /**
+   * Whether the query depends on earlier turns (pronouns, "and/what about..." openers, or too few keywords)
+   */
+  isFollowUp(query: string): boolean {
+    return QueryRewriter.ANAPHORA.test(query) ||
+      QueryRewriter.FOLLOW_UP_START.test(query) ||
+      TextProcessor.extractKeywords(query).length < QueryRewriter.MIN_STANDALONE_KEYWORDS;
+  }
+
+  /**
+   * Standalone form of a follow-up (LLM or keyword carryover); other queries are returned unchanged
+   */
+  private async contextualize(query: string, history: Message[], unchanged: RewrittenQuery): Promise<RewrittenQuery> {
+    const previous = this.previousMessages(query, history);
+    if (previous.length === 0 || !this.isFollowUp(query)) {
+      return unchanged;
+    }
+
+    if (this.mode === 'llm') {
+      try {
+        const rewritten = await this.rewriteWithLlm(query, previous);
+        return { ...unchanged, rewritten };
+      } catch (error) {
+        if (process.env.DEBUG === 'true') {
+          console.log(`[DEBUG] Query rewrite failed, using keyword carryover: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    return this.rewriteWithRules(query, previous);
+  }
+
+  /**
+   * Append the knowledge base words of the paraphrases found in the original query (unless already searched for),
+   * so "how do I get my money back" also searches for "refund billing payment"
+   */
+  private expand(result: RewrittenQuery): RewrittenQuery {
+    const searched = new Set(TextProcessor.extractKeywords(result.rewritten));
+    const expandedTerms = [...new Set(
+      QueryRewriter.PARAPHRASES
+        .filter(([pattern]) => pattern.test(result.original))
+        .flatMap(([, terms]) => terms)
+    )].filter(term => !searched.has(term));
+
+    return expandedTerms.length > 0
+      ? { ...result, rewritten: `${result.rewritten} ${expandedTerms.join(' ')}`, expandedTerms }
+      : result;
+  }
+
+  /**
+   * Keyword carryover: append the most salient keywords of the recent user turns
+   * (more recent turns and repeated terms score higher)
+   */
+  private rewriteWithRules(query: string, previous: Message[]): RewrittenQuery {
+    const queryKeywords = new Set(TextProcessor.extractKeywords(query));
+    const scores = new Map<string, number>();
+
+    const userTurns = previous
+      .filter(message => message.role === 'user')
+      .slice(-CONFIG.QUERY_REWRITE_HISTORY_TURNS);
+
+    userTurns.forEach((message, index) => {
+      const recency = (index + 1) / userTurns.length;
+      for (const [term, count] of TextProcessor.calculateTermFrequency(message.content)) {
+        if (!queryKeywords.has(term)) {
+          scores.set(term, (scores.get(term) || 0) + count * recency);
+        }
+      }
+    });
+
+    const carriedTerms = Array.from(scores)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, QueryRewriter.MAX_CARRIED_TERMS)
+      .map(([term]) => term);
+
+    return {
+      original: query,
+      rewritten: carriedTerms.length > 0 ? `${query} ${carriedTerms.join(' ')}` : query,
+      mode: 'rules',
+      carriedTerms,
+      expandedTerms: []
+    };
+  }
+
+  private async rewriteWithLlm(query: string, previous: Message[]): Promise<string> {
+    this.openai ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+    const transcript = previous
+      .filter(message => message.role !== 'system')
+      .slice(-CONFIG.QUERY_REWRITE_HISTORY_TURNS * 2)
+      .map(message => `${message.role}: ${message.content}`)
+      .join('\n');
+
+    const response = await this.openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: `Rewrite the user's latest question as a standalone search query for a knowledge base.
+Resolve pronouns and follow-ups ("what about...", "and for...") using the conversation.
+Respond with the query only, no explanation. If the question is already standalone, repeat it unchanged.`
+        },
+        { role: 'user', content: `Conversation:\n${transcript}\n\nLatest question: ${query}` }
+      ],
+      temperature: 0,
+      max_tokens: 60
+    });
+
+    const rewritten = response.choices[0]?.message?.content?.trim();
+    if (!rewritten) {
+      throw new Error('Empty rewrite');
+    }
+    return rewritten;
+  }
+
+  /**
+   * History before the current query
+   */
+  private previousMessages(query: string, history: Message[]): Message[] {
+    const last = history[history.length - 1];
+    return last && last.role === 'user' && last.content === query ? history.slice(0, -1) : history;
+  }
+}
@@ -1,63 +1,211 @@
 /**
  * Retrieval Service - SELECT Context Strategy
- * Retrieves relevant knowledge entries using keyword matching
+ * Retrieves relevant knowledge passages using BM25F keyword ranking, hashed n-gram vectors,
+ * or a hybrid of both fused with reciprocal rank fusion
  */
 
-import { KnowledgeEntry } from '../types/index.js';
-import { TextProcessor } from '../utils/text-processing.js';
+import { KnowledgeEntry, KnowledgeFilter, KnowledgePassage } from '../types/index.js';
+import { Bm25Index } from '../utils/bm25-index.js';
+import { VectorIndex } from './vector-index.js';
+import { CONFIG } from '../config.js';
 
-interface ScoredEntry {
-  entry: KnowledgeEntry;
+export type RetrievalMode = 'keyword' | 'ngram' | 'hybrid';
+
+export interface RetrievalOptions {
+  mode?: RetrievalMode;
+  vectorIndexPath?: string;
+}
+
+interface RankedMatch {
+  id: string;
   score: number;
 }
 
+// Keyword index and passage lookup, replaced together on rebuild
+interface KeywordIndex {
+  passagesById: Map<string, KnowledgePassage>;
+  bm25: Bm25Index;
+}
+
 export class RetrievalService {
-  constructor(private knowledgeEntries: KnowledgeEntry[]) {}
+  // Standard RRF constant: dampens the weight of top ranks so neither list dominates
+  private static readonly RRF_K = 60;
+
+  private readonly mode: RetrievalMode;
+  private readonly vectorIndex: VectorIndex | null = null;
+  private keywordIndex: KeywordIndex;
+
+  constructor(passages: KnowledgePassage[], options: RetrievalOptions = {}) {
+    this.mode = options.mode ?? CONFIG.RETRIEVAL_MODE;
+
+    // Vectors are only needed for the n-gram and hybrid modes
+    if (this.mode !== 'keyword') {
+      this.vectorIndex = new VectorIndex(options.vectorIndexPath ?? CONFIG.VECTOR_INDEX_PATH);
+    }
+
+    this.keywordIndex = this.buildKeywordIndex(passages);
+    this.vectorIndex?.build(passages);
+  }
+
+  /**
+   * Rebuild the indexes after the knowledge base changed
+   */
+  rebuild(passages: KnowledgePassage[]): void {
+    this.keywordIndex = this.buildKeywordIndex(passages);
+    this.vectorIndex?.build(passages);
+  }
 
   /**
-   * Retrieve top K most relevant entries for a query
+   * Retrieve top K most relevant passages for a query, optionally restricted by a metadata filter
    */
-  retrieve(query: string, topK: number = 3): KnowledgeEntry[] {
+  retrieve(query: string, topK: number = 3, filter?: KnowledgeFilter): KnowledgePassage[] {
     if (!query.trim()) {
       return [];
     }
 
-    // Score all entries
-    const scoredEntries: ScoredEntry[] = this.knowledgeEntries.map(entry => ({
-      entry,
-      score: this.scoreEntry(entry, query)
-    }));
+    let ranked: RankedMatch[];
+    if (this.mode === 'ngram') {
+      ranked = this.ngramMatches(query);
+    } else if (this.mode === 'hybrid') {
+      ranked = this.fuse([this.keywordMatches(query), this.ngramMatches(query)]);
+    } else {
+      ranked = this.keywordMatches(query);
+    }
 
-    // Sort by score descending and take top K
-    return scoredEntries
-      .filter(scored => scored.score > 0) // Only include entries with positive scores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK)
-      .map(scored => scored.entry);
+    // Filter before cutting to top K so excluded entries do not use up result slots
+    return ranked
+      .map(match => this.keywordIndex.passagesById.get(match.id))
+      .filter((passage): passage is KnowledgePassage => passage !== undefined)
+      .filter(passage => !filter || RetrievalService.matchesFilter(passage, filter))
+      .slice(0, topK);
   }
 
   /**
-   * Score an entry against a query using keyword matching
+   * Whether an entry passes a filter (entries without an audience are shared by every audience)
    */
-  private scoreEntry(entry: KnowledgeEntry, query: string): number {
-    const queryKeywords = TextProcessor.extractKeywords(query);
-    const titleKeywords = TextProcessor.extractKeywords(entry.title);
-    const contentKeywords = TextProcessor.extractKeywords(entry.content);
+  static matchesFilter(entry: KnowledgeEntry, filter: KnowledgeFilter): boolean {
+    if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => entry.tags?.includes(tag))) {
+      return false;
+    }
+    if (filter.audience && entry.audience && entry.audience !== filter.audience) {
+      return false;
+    }
+    if (filter.source && !entry.source?.startsWith(filter.source)) {
+      return false;
+    }
+    if (filter.updatedAfter && (!entry.updatedAt || entry.updatedAt <= filter.updatedAfter)) {
+      return false;
+    }
+    if (filter.updatedBefore && (!entry.updatedAt || entry.updatedAt >= filter.updatedBefore)) {
+      return false;
+    }
+    return true;
+  }
 
-    let score = 0;
+  /**
+   * Parse "tags=billing,security audience=admin updatedAfter=2024-01-01" into a filter
+   */
+  static parseFilter(text: string): KnowledgeFilter {
+    const filter: KnowledgeFilter = {};
 
-    // Check each query keyword
-    for (const queryKeyword of queryKeywords) {
-      // Title matches are weighted higher (3x)
-      if (titleKeywords.includes(queryKeyword)) {
-        score += 3;
+    for (const pair of text.trim().split(/\s+/).filter(Boolean)) {
+      const [key, ...rest] = pair.split('=');
+      const value = rest.join('=').trim();
+      if (!value) {
+        throw new Error(`Missing value for "${key}"`);
       }
-      // Content matches
-      if (contentKeywords.includes(queryKeyword)) {
-        score += 1;
+
+      switch (key.toLowerCase()) {
+        case 'tags':
+        case 'tag':
+          filter.tags = value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+          break;
+        case 'audience':
+          filter.audience = value.toLowerCase();
+          break;
+        case 'source':
+          filter.source = value;
+          break;
+        case 'updatedafter':
+        case 'updatedbefore': {
+          const date = new Date(value);
+          if (isNaN(date.getTime())) {
+            throw new Error(`Invalid date "${value}"`);
+          }
+          filter[key.toLowerCase() === 'updatedafter' ? 'updatedAfter' : 'updatedBefore'] = date.toISOString();
+          break;
+        }
+        default:
+          throw new Error(`Unknown filter "${key}" (use tags, audience, source, updatedAfter, updatedBefore)`);
       }
     }
 
-    return score;
+    return filter;
+  }
+
+  /**
+   * Filter in the same syntax parseFilter accepts ("none" when empty)
+   */
+  static formatFilter(filter: KnowledgeFilter): string {
+    const parts: string[] = [];
+    if (filter.tags && filter.tags.length > 0) parts.push(`tags=${filter.tags.join(',')}`);
+    if (filter.audience) parts.push(`audience=${filter.audience}`);
+    if (filter.source) parts.push(`source=${filter.source}`);
+    if (filter.updatedAfter) parts.push(`updatedAfter=${filter.updatedAfter.slice(0, 10)}`);
+    if (filter.updatedBefore) parts.push(`updatedBefore=${filter.updatedBefore.slice(0, 10)}`);
+    return parts.length > 0 ? parts.join(' ') : 'none';
+  }
+
+  /**
+   * BM25F matches, best first (drops weak matches such as a single common word)
+   */
+  private keywordMatches(query: string): RankedMatch[] {
+    return this.keywordIndex.bm25.search(query)
+      .filter(match => match.score >= CONFIG.RETRIEVAL_MIN_SCORE);
+  }
+
+  /**
+   * N-gram vector matches, best first (shared words and word parts, not meaning)
+   */
+  private ngramMatches(query: string): RankedMatch[] {
+    return (this.vectorIndex?.search(query) ?? [])
+      .filter(match => match.score >= CONFIG.NGRAM_MIN_SIMILARITY);
+  }
+
+  /**
+   * Build the inverted index (title and content scored as separate fields)
+   */
+  private buildKeywordIndex(passages: KnowledgePassage[]): KeywordIndex {
+    return {
+      passagesById: new Map(passages.map(passage => [passage.id, passage])),
+      bm25: new Bm25Index(
+        passages.map(passage => ({
+          id: passage.id,
+          fields: { title: passage.title, content: passage.content }
+        })),
+        {
+          fieldWeights: {
+            title: CONFIG.RETRIEVAL_TITLE_WEIGHT,
+            content: CONFIG.RETRIEVAL_CONTENT_WEIGHT
+          }
+        }
+      )
+    };
+  }
+
+  /**
+   * Reciprocal rank fusion: score = Σ 1 / (k + rank) over every list containing the entry
+   */
+  private fuse(rankings: RankedMatch[][]): RankedMatch[] {
+    const fused = new Map<string, number>();
+
+    for (const ranking of rankings) {
+      ranking.forEach((match, rank) => {
+        fused.set(match.id, (fused.get(match.id) || 0) + 1 / (RetrievalService.RRF_K + rank + 1));
+      });
+    }
+
+    return Array.from(fused, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
   }
 }
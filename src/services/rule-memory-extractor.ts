@@ -0,0 +1,124 @@
+/**
+ * Rule-based Memory Extractor - offline query classification and memory extraction
+ * Keyword and phrasing rules per memory category ("my name is", "I prefer", "let's use"): no API calls
+ */
+
+import { Message } from '../types/index.js';
+import { CONFIG, MemoryCategory } from '../config.js';
+import { ExtractedMemory, MemoryExtractor } from './memory-extraction.js';
+
+interface ExtractionRule {
+  category: MemoryCategory;
+  pattern: RegExp;                         // Matched against one statement of the user message
+  content: (match: RegExpMatchArray) => string; // Third-person memory from the match
+}
+
+export class RuleBasedMemoryExtractor implements MemoryExtractor {
+  // First matching rule wins, so the more specific phrasings come first
+  private static readonly EXTRACTION_RULES: ExtractionRule[] = [
+    { category: 'instruction', pattern: /^(?:please\s+)?(?:from now on|going forward|in the future),?\s+(.+)$/i, content: m => `From now on, ${m[1]}` },
+    { category: 'instruction', pattern: /^(?:please\s+)?(always|never)\s+(.+)$/i, content: m => `The assistant should ${m[1].toLowerCase()} ${m[2]}` },
+    { category: 'instruction', pattern: /^(?:please\s+)?(?:do not|don't) ever\s+(.+)$/i, content: m => `The assistant should never ${m[1]}` },
+    { category: 'decision', pattern: /\b(?:let's|let us|we(?:'ll| will)|we(?:'re| are) going to)\s+(?:use|go with|pick|switch to)\s+(.+)$/i, content: m => `The project will use ${m[1]}` },
+    { category: 'decision', pattern: /\b(?:i|we)(?:'ve| have)?\s+decided\s+(?:to\s+)?(.+)$/i, content: m => `The user decided to ${m[1]}` },
+    { category: 'user_info', pattern: /\bmy name is\s+(.+)$/i, content: m => `The user's name is ${m[1]}` },
+    { category: 'user_info', pattern: /\bcall me\s+(.+)$/i, content: m => `The user wants to be called ${m[1]}` },
+    { category: 'user_info', pattern: /\bi work\s+(as|in|at|for)\s+(.+)$/i, content: m => `The user works ${m[1].toLowerCase()} ${m[2]}` },
+    { category: 'user_info', pattern: /\bi(?:'m| am) (?:based|located) in\s+(.+)$/i, content: m => `The user is based in ${m[1]}` },
+    { category: 'user_info', pattern: /\bi live in\s+(.+)$/i, content: m => `The user lives in ${m[1]}` },
+    { category: 'user_info', pattern: /\bi(?:'m| am) from\s+(.+)$/i, content: m => `The user is from ${m[1]}` },
+    { category: 'user_preference', pattern: /\bi (?:do not|don't) like\s+(.+)$/i, content: m => `The user does not like ${m[1]}` },
+    { category: 'user_preference', pattern: /\bi prefer\s+(.+)$/i, content: m => `The user prefers ${m[1]}` },
+    { category: 'user_preference', pattern: /\bi(?:'d| would) rather\s+(.+)$/i, content: m => `The user prefers ${m[1]}` },
+    { category: 'user_preference', pattern: /\bi (?:really\s+)?(like|love|hate|dislike|enjoy)\s+(.+)$/i, content: m => `The user ${m[1].toLowerCase()}s ${m[2]}` },
+    { category: 'user_preference', pattern: /\bmy favou?rite\s+(.+)$/i, content: m => `The user's favorite ${m[1]}` },
+    { category: 'project_context', pattern: /\b(?:i(?:'m| am)|we(?:'re| are))\s+(?:working on|building|developing)\s+(.+)$/i, content: m => `The user is working on ${m[1]}` },
+    { category: 'project_context', pattern: /\b(?:my|our) (project|app|application|product|codebase)\s+(is|uses|runs on|has)\s+(.+)$/i, content: m => `The user's ${m[1].toLowerCase()} ${m[2].toLowerCase()} ${m[3]}` },
+    { category: 'fact', pattern: /^(?:please\s+)?(?:remember|note|keep in mind) that\s+(.+)$/i, content: m => `The user noted that ${m[1]}` }
+  ];
+
+  // Cues that a query is about a category (word stems, matched at word starts)
+  private static readonly CATEGORY_CUES: Record<MemoryCategory, RegExp> = {
+    user_preference: /\b(prefer|like|love|hate|dislike|favou?rite|rather|style|taste|preference)/i,
+    user_info: /\b(my name|who am i|about me|my job|my role|i work|where do i|my background|my age|i live|i am from|call me)/i,
+    project_context: /\b(project|app|application|codebase|repo|stack|building|working on|architecture|deadline)/i,
+    decision: /\b(decid|decision|chose|choose|chosen|going with|agreed|settled|which .* use)/i,
+    instruction: /\b(always|never|rule|instruction|how should you|should you|format|remind)/i,
+    fact: /\b(fact|remember|told you|did i (say|mention)|what did i|noted)/i,
+    other: /(?!)/ // Never inferred from the query
+  };
+
+  /**
+   * Extract the first statement of the user message that matches a rule (questions are skipped)
+   */
+  async extractMemory(userMessage: Message, _assistantMessage?: Message): Promise<ExtractedMemory | null> {
+    return this.extractAll(userMessage.content)[0] ?? null;
+  }
+
+  /**
+   * Extract every matching statement of the user messages (batch mode), without repeats
+   */
+  async extractMemories(messages: Message[]): Promise<ExtractedMemory[]> {
+    const memories = new Map<string, ExtractedMemory>();
+    for (const message of messages.filter(m => m.role === 'user')) {
+      for (const memory of this.extractAll(message.content)) {
+        memories.set(`${memory.category}:${memory.content.toLowerCase()}`, memory);
+      }
+    }
+    return [...memories.values()];
+  }
+
+  // One memory per statement: the first rule that matches it
+  private extractAll(text: string): ExtractedMemory[] {
+    return this.statements(text).flatMap(statement => {
+      for (const rule of RuleBasedMemoryExtractor.EXTRACTION_RULES) {
+        const match = statement.match(rule.pattern);
+        if (match) {
+          return [{ category: rule.category, content: this.finish(rule.content(match)) }];
+        }
+      }
+      return [];
+    });
+  }
+
+  /**
+   * Categories whose cues appear in the query, most cues first (none when no cue matches: no category is boosted)
+   */
+  async classifyQuery(query: string): Promise<string[]> {
+    const categories = CONFIG.MEMORY_CATEGORIES
+      .map(category => ({ category, hits: this.countCues(query, RuleBasedMemoryExtractor.CATEGORY_CUES[category]) }))
+      .filter(({ hits }) => hits > 0)
+      .sort((a, b) => b.hits - a.hits)
+      .slice(0, 3)
+      .map(({ category }) => category as string);
+
+    return categories;
+  }
+
+  private countCues(text: string, cues: RegExp): number {
+    return (text.match(new RegExp(cues.source, 'gi')) || []).length;
+  }
+
+  // Sentences and clauses that are statements, not questions
+  private statements(text: string): string[] {
+    return (text.match(/[^.!?\n]+[.!?]*/g) || [])
+      .filter(sentence => !sentence.trim().endsWith('?'))
+      .flatMap(sentence => sentence.split(/[,;]\s*(?:and|but|so)\s+|\s+(?:and|but)\s+(?=(?:also\s+)?(?:i|my|we|our|let's)\b)/i))
+      .map(statement => statement.trim().replace(/[.!]+$/, ''))
+      .filter(Boolean);
+  }
+
+  // First-person words become third person
+  private finish(content: string): string {
+    return content
+      .replace(/\bmy\b/gi, 'their')
+      .replace(/\bmine\b/gi, 'theirs')
+      .replace(/\bmyself\b/gi, 'themselves')
+      .replace(/\bme\b/gi, 'them')
+      .replace(/\bI(?:'m| am)\b/g, 'they are')
+      .replace(/\bI\b/g, 'they')
+      .replace(/\bwe\b/gi, 'the team')
+      .replace(/\bour\b/gi, 'the team\'s')
+      .trim();
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Session Store - persists conversations so they can be resumed
+ * One JSON file per session: messages, cached summaries and per-turn context metadata
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Message, Session } from '../types/index.js';
+import { CONFIG } from '../config.js';
+
+export interface SessionInfo {
+  id: string;
+  updatedAt: string;
+  turns: number;
+  preview: string; // First user message
+}
+
+// Single rolling summary saved by versions without summary tiers
+interface LegacySummaryState {
+  summary: Message;
+  coveredCount: number;
+  coveredUntil: number;
+}
+
+function isLegacySummaryState(value: unknown): value is LegacySummaryState {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const state = value as Record<string, unknown>;
+  return typeof state.summary === 'object' && state.summary !== null &&
+    typeof state.coveredCount === 'number' && typeof state.coveredUntil === 'number';
+}
+
+export class SessionStore {
+  constructor(private readonly sessionsPath: string = CONFIG.SESSIONS_PATH) {}
+
+  /**
+   * New empty session (written on the first save)
+   */
+  create(): Session {
+    const now = new Date();
+    return {
+      id: `session_${now.toISOString().replace(/[:.]/g, '-').slice(0, -5)}`,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      messages: [],
+      summary: null,
+      turns: []
+    };
+  }
+
+  /**
+   * Write a session to disk
+   */
+  save(session: Session): void {
+    if (!existsSync(this.sessionsPath)) {
+      mkdirSync(this.sessionsPath, { recursive: true });
+    }
+
+    session.updatedAt = new Date().toISOString();
+    writeFileSync(join(this.sessionsPath, `${session.id}.json`), JSON.stringify(session, null, 2), 'utf-8');
+  }
+
+  /**
+   * Load a session by id or by a unique id prefix
+   */
+  load(idOrPrefix: string): Session {
+    const ids = this.listIds();
+    const id = ids.includes(idOrPrefix) ? idOrPrefix : this.resolvePrefix(ids, idOrPrefix);
+
+    const session: Session = JSON.parse(readFileSync(join(this.sessionsPath, `${id}.json`), 'utf-8'));
+    if (!session.id || !Array.isArray(session.messages)) {
+      throw new Error(`Session file ${id}.json is invalid`);
+    }
+
+    // Files written by older versions may lack optional state
+    session.summary ??= null;
+    const summary: unknown = session.summary;
+    if (isLegacySummaryState(summary)) {
+      // Single rolling summary: becomes the long-range tier
+      session.summary = {
+        longRange: summary.summary,
+        longRangeCount: summary.coveredCount,
+        segments: [],
+        coveredCount: summary.coveredCount,
+        coveredUntil: summary.coveredUntil
+      };
+    } else if (session.summary && !Array.isArray(session.summary.segments)) {
+      throw new Error(`Session file ${id}.json has an invalid summary`);
+    }
+    session.turns ??= [];
+    return session;
+  }
+
+  /**
+   * Saved sessions, most recently updated first (unreadable files are skipped)
+   */
+  list(): SessionInfo[] {
+    const sessions: SessionInfo[] = [];
+
+    for (const id of this.listIds()) {
+      try {
+        const session = this.load(id);
+        const firstQuestion = session.messages.find(message => message.role === 'user');
+        sessions.push({
+          id: session.id,
+          updatedAt: session.updatedAt,
+          turns: session.turns.length,
+          preview: firstQuestion ? firstQuestion.content.slice(0, 60) : '(empty)'
+        });
+      } catch (error) {
+        console.warn(`Skipping unreadable session ${id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private listIds(): string[] {
+    if (!existsSync(this.sessionsPath)) {
+      return [];
+    }
+    return readdirSync(this.sessionsPath)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  }
+
+  private resolvePrefix(ids: string[], prefix: string): string {
+    const matches = ids.filter(id => id.startsWith(prefix));
+    if (matches.length === 0) {
+      throw new Error(`Session "${prefix}" not found`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Session "${prefix}" is ambiguous (${matches.length} matches)`);
+    }
+    return matches[0];
+  }
+}
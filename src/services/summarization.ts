@@ -6,9 +6,18 @@
 import OpenAI from 'openai';
 import { Message } from '../types/index.js';
 import { CONFIG } from '../config.js';
+import { ExtractiveSummarizer } from './extractive-summarizer.js';
 
-export class SummarizationService {
+// What the context manager needs from a summarizer (lets tests and offline setups swap it)
+export interface Summarizer {
+  summarizeMessages(messages: Message[], targetTokens: number): Promise<Message>;
+  shouldSummarize(messagesToSummarize: number, currentTokens: number): boolean;
+}
+
+export class SummarizationService implements Summarizer {
   private openai: OpenAI;
+  // Offline summaries when the API call fails
+  private readonly fallback = new ExtractiveSummarizer();
 
   constructor() {
     this.openai = new OpenAI({
@@ -71,13 +80,9 @@ The summary should:
         timestamp: Date.now()
       };
     } catch (error) {
-      console.error('Summarization error:', error);
-      // Fallback: create a simple summary without API call
-      return {
-        role: 'system',
-        content: `[Previous conversation: ${messages.length} messages exchanged between ${new Date(messages[0].timestamp).toLocaleTimeString()} and ${new Date(messages[messages.length - 1].timestamp).toLocaleTimeString()}]`,
-        timestamp: Date.now()
-      };
+      console.error('Summarization error, using extractive summary:', error);
+      // Fallback: summarize without API call
+      return this.fallback.summarizeMessages(messages, targetTokens);
     }
   }
 
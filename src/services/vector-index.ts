@@ -0,0 +1,107 @@
+/**
+ * Vector Index - persisted hashed n-gram vectors for the n-gram and hybrid retrieval modes
+ * Stored next to the knowledge file; only new or changed entries are re-embedded
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { KnowledgeEntry } from '../types/index.js';
+import { HashedEmbedder } from '../utils/embeddings.js';
+
+interface StoredVector {
+  hash: string; // Hash of title + content the vector was computed from
+  vector: number[];
+}
+
+interface VectorIndexFile {
+  model: string;
+  vectors: Record<string, StoredVector>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+export class VectorIndex {
+  private readonly vectors = new Map<string, number[]>();
+
+  constructor(
+    private readonly indexPath: string,
+    private readonly embedder: HashedEmbedder = new HashedEmbedder()
+  ) {}
+
+  /**
+   * Load persisted vectors, embed missing/changed entries and save the index if it changed
+   */
+  build(entries: KnowledgeEntry[]): void {
+    const stored = this.readIndexFile();
+    const next: Record<string, StoredVector> = {};
+    let embedded = 0;
+
+    this.vectors.clear();
+
+    for (const entry of entries) {
+      const hash = VectorIndex.hashEntry(entry);
+      const existing = stored?.vectors[entry.id];
+
+      if (existing && existing.hash === hash) {
+        next[entry.id] = existing;
+      } else {
+        next[entry.id] = { hash, vector: this.embedder.embed(`${entry.title}\n${entry.content}`) };
+        embedded++;
+      }
+
+      this.vectors.set(entry.id, next[entry.id].vector);
+    }
+
+    const removed = stored ? Object.keys(stored.vectors).filter(id => !(id in next)).length : 0;
+    if (embedded > 0 || removed > 0) {
+      this.writeIndexFile({ model: this.embedder.modelId, vectors: next });
+    }
+
+    if (process.env.DEBUG === 'true') {
+      console.log(`[DEBUG] Vector index: ${entries.length} entries (${embedded} embedded, ${entries.length - embedded} reused)`);
+    }
+  }
+
+  /**
+   * Rank indexed entries by cosine similarity to the query
+   */
+  search(query: string): VectorMatch[] {
+    const queryVector = this.embedder.embed(query);
+
+    return Array.from(this.vectors, ([id, vector]) => ({
+      id,
+      score: HashedEmbedder.cosine(queryVector, vector)
+    })).sort((a, b) => b.score - a.score);
+  }
+
+  private readIndexFile(): VectorIndexFile | null {
+    if (!existsSync(this.indexPath)) {
+      return null;
+    }
+
+    try {
+      const parsed: VectorIndexFile = JSON.parse(readFileSync(this.indexPath, 'utf-8'));
+      // Vectors from another embedding model are not comparable
+      return parsed.model === this.embedder.modelId ? parsed : null;
+    } catch (error) {
+      console.warn(`Ignoring unreadable vector index ${this.indexPath}:`, error);
+      return null;
+    }
+  }
+
+  private writeIndexFile(data: VectorIndexFile): void {
+    try {
+      writeFileSync(this.indexPath, JSON.stringify(data), 'utf-8');
+    } catch (error) {
+      // The in-memory index still works, vectors are recomputed next start
+      console.warn(`Failed to save vector index ${this.indexPath}:`, error);
+    }
+  }
+
+  private static hashEntry(entry: KnowledgeEntry): string {
+    return createHash('sha1').update(`${entry.title}\n${entry.content}`).digest('hex');
+  }
+}
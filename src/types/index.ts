@@ -2,17 +2,68 @@
  * Core type definitions for the context-aware AI agent
  */
 
+import type { AssistantMessageItem, SystemMessageItem, UserMessageItem } from '@openai/agents';
+
 export interface KnowledgeEntry {
   id: string;
   title: string;
   content: string;
+  // Optional metadata (preserved by the loaders)
+  tags?: string[];
+  source?: string;     // Where the entry comes from (defaults to the file it was loaded from)
+  updatedAt?: string;  // ISO timestamp
+  audience?: string;   // e.g. "admin", "developer"; entries without audience are shown to everyone
+  priority?: number;   // Higher wins when the knowledge budget is tight (default: 0)
+}
+
+// Restricts retrieval to a subset of the knowledge base
+export interface KnowledgeFilter {
+  tags?: string[];        // Entry must have at least one of these tags
+  audience?: string;      // Entries for another audience are excluded
+  source?: string;        // Source prefix, e.g. "billing/"
+  updatedAfter?: string;  // ISO date
+  updatedBefore?: string; // ISO date
+}
+
+// A retrievable slice of a knowledge entry (entries within the chunk size form a single passage)
+export interface KnowledgePassage extends KnowledgeEntry {
+  parentId: string;   // Id of the entry the passage was cut from
+  chunkIndex: number;
+  chunkCount: number;
+  start: number;      // Character offsets into the parent content
+  end: number;
+}
+
+// A near-duplicate save folded into an existing memory
+export interface MergedMemory {
+  content: string;
+  date: string; // ISO timestamp
 }
 
 export interface MemoryEntry {
   id: string;
   category: string;
   content: string;
-  date: string; // ISO timestamp
+  date: string; // ISO timestamp (refreshed when a duplicate is merged)
+  // Consolidation lineage (optional, absent on entries that never met a duplicate or contradiction)
+  supersededBy?: string;   // Id of the newer, contradicting entry; superseded entries are never injected
+  supersedes?: string[];   // Ids of the entries this one replaced
+  merged?: MergedMemory[]; // Near-duplicate saves merged into this entry, oldest first
+  importance?: number;     // 0-1, overrides the category default when ranking
+}
+
+// How a memory was ranked for the current query (total = weighted components + category boost)
+export interface MemoryScore {
+  total: number;
+  relevance: number;     // Weighted similarity to the query
+  recency: number;       // Weighted recency decay
+  importance: number;    // Weighted importance of the entry
+  categoryBoost: number; // Added when the query was classified into the entry's category
+}
+
+// A memory ranked against the current query
+export interface RankedMemory extends MemoryEntry {
+  score: MemoryScore;
 }
 
 export interface Message {
@@ -21,11 +72,53 @@ export interface Message {
   timestamp: number;
 }
 
+// Summary of one batch of evicted messages (mid-range tier)
+export interface SummarySegment {
+  summary: Message;
+  messageCount: number;
+}
+
+// Hierarchical summary of the messages evicted from the context so far:
+// a long-range summary of summaries, followed by segment summaries of the more recent evictions
+export interface SummaryCheckpoint {
+  longRange: Message | null;
+  longRangeCount: number;     // Messages covered by the long-range summary
+  segments: SummarySegment[]; // Oldest first
+  coveredCount: number;       // Leading history messages covered by all summaries
+  coveredUntil: number;       // Timestamp of the last covered message (detects a different history)
+}
+
+// What went into the context window of one turn
+export interface TurnMetadata {
+  timestamp: number;
+  query: string;
+  retrievalQuery: string;
+  knowledgeIds: string[];
+  memoryIds: string[];
+  historyMessages: number; // Messages in the compressed history (summary included)
+  summarized: boolean;
+  totalTokens: number;
+}
+
+export interface Session {
+  id: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  messages: Message[];
+  summary: SummaryCheckpoint | null;
+  turns: TurnMetadata[];
+}
+
+// One item of the agent input (a system section, a previous turn or the current query)
+export type ContextInputItem = SystemMessageItem | UserMessageItem | AssistantMessageItem;
+
 export interface ContextWindow {
-  systemPrompt: string;
+  systemPrompt: string;           // System prompt with the memory and knowledge sections (for display)
+  input: ContextInputItem[];      // Items passed to run(), as counted in totalTokens
   memoryEntries: MemoryEntry[];
   knowledgeEntries: KnowledgeEntry[];
-  conversationHistory: Message[];
+  conversationHistory: Message[]; // Compressed previous turns (the current query is sent as `query`)
+  query: string;        // Current user message as sent to the agent (truncated when it alone exceeds the budget)
   totalTokens: number;
   debugInfo?: string; // Optional debug breakdown (when DEBUG=true)
 }
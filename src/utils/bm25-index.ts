@@ -0,0 +1,129 @@
+/**
+ * BM25F inverted index
+ * Built once from a document set, scores queries with per-field weights and length normalization
+ */
+
+import { TextProcessor } from './text-processing.js';
+
+export interface IndexedDocument {
+  id: string;
+  fields: Record<string, string>;
+}
+
+export interface Bm25Options {
+  fieldWeights: Record<string, number>;
+  k1?: number; // Term frequency saturation
+  b?: number;  // Field length normalization (0 = none, 1 = full)
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+}
+
+export class Bm25Index {
+  // term -> document id -> field -> term frequency
+  private readonly postings = new Map<string, Map<string, Record<string, number>>>();
+  // document id -> field -> length (in keywords)
+  private readonly fieldLengths = new Map<string, Record<string, number>>();
+  private readonly averageFieldLengths: Record<string, number> = {};
+  private readonly fieldWeights: Record<string, number>;
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor(documents: IndexedDocument[], options: Bm25Options) {
+    this.fieldWeights = options.fieldWeights;
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+
+    const fields = Object.keys(this.fieldWeights);
+    const totalLengths: Record<string, number> = {};
+    fields.forEach(field => { totalLengths[field] = 0; });
+
+    for (const doc of documents) {
+      const lengths: Record<string, number> = {};
+
+      for (const field of fields) {
+        const frequencies = TextProcessor.calculateTermFrequency(doc.fields[field] || '');
+        let length = 0;
+
+        for (const [term, count] of frequencies) {
+          let docs = this.postings.get(term);
+          if (!docs) {
+            docs = new Map();
+            this.postings.set(term, docs);
+          }
+          const entry = docs.get(doc.id) || {};
+          entry[field] = count;
+          docs.set(doc.id, entry);
+          length += count;
+        }
+
+        lengths[field] = length;
+        totalLengths[field] += length;
+      }
+
+      this.fieldLengths.set(doc.id, lengths);
+    }
+
+    for (const field of fields) {
+      this.averageFieldLengths[field] = documents.length > 0 ? totalLengths[field] / documents.length : 0;
+    }
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.fieldLengths.size;
+  }
+
+  /**
+   * Score all documents containing at least one query term, best first
+   */
+  search(query: string): Bm25Match[] {
+    const queryTerms = new Set(TextProcessor.extractKeywords(query));
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const docs = this.postings.get(term);
+      if (!docs) {
+        continue;
+      }
+
+      const idf = this.inverseDocumentFrequency(docs.size);
+
+      for (const [docId, termFrequencies] of docs) {
+        const pseudoFrequency = this.weightedTermFrequency(docId, termFrequencies);
+        const termScore = idf * pseudoFrequency / (this.k1 + pseudoFrequency);
+        scores.set(docId, (scores.get(docId) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Probabilistic IDF (always positive): rare terms weigh more than common ones
+   */
+  private inverseDocumentFrequency(documentFrequency: number): number {
+    return Math.log(1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * Combine per-field term frequencies, each normalized by its field length and weighted (BM25F)
+   */
+  private weightedTermFrequency(docId: string, termFrequencies: Record<string, number>): number {
+    const lengths = this.fieldLengths.get(docId) || {};
+    let total = 0;
+
+    for (const [field, frequency] of Object.entries(termFrequencies)) {
+      const averageLength = this.averageFieldLengths[field] || 1;
+      const normalization = 1 - this.b + this.b * (lengths[field] || 0) / averageLength;
+      total += this.fieldWeights[field] * frequency / normalization;
+    }
+
+    return total;
+  }
+}
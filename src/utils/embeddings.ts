@@ -0,0 +1,97 @@
+/**
+ * Local text embeddings
+ * Deterministic hashed n-gram vectors (feature hashing) - no model download or network access
+ * They measure shared words, word pairs and word parts (bill / billed / billing), not meaning:
+ * a paraphrase without common words ("get my money back" vs "refund") only matches once QueryRewriter expands it
+ */
+
+import { TextProcessor } from './text-processing.js';
+
+export class HashedEmbedder {
+  private static readonly CHAR_NGRAM = 3;
+
+  // Relative weights of each feature family
+  private static readonly WORD_WEIGHT = 1.0;
+  private static readonly BIGRAM_WEIGHT = 0.5;
+  private static readonly CHAR_WEIGHT = 0.3;
+
+  constructor(readonly dimensions: number = 512) {}
+
+  /**
+   * Identifier stored with persisted vectors (changes invalidate the on-disk index)
+   */
+  get modelId(): string {
+    return `hashed-ngram-v1-${this.dimensions}`;
+  }
+
+  /**
+   * Embed text into an L2-normalized vector
+   */
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = TextProcessor.extractKeywords(text);
+
+    for (const [feature, weight] of this.extractFeatures(words)) {
+      const hash = HashedEmbedder.fnv1a(feature);
+      const index = hash % this.dimensions;
+      const sign = (hash >>> 31) === 0 ? 1 : -1; // Signed hashing reduces collision bias
+      vector[index] += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Cosine similarity between two normalized vectors
+   */
+  static cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return dot;
+  }
+
+  /**
+   * Word unigrams, word bigrams and character n-grams, with log-scaled counts
+   */
+  private extractFeatures(words: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, HashedEmbedder.WORD_WEIGHT);
+
+      if (i > 0) {
+        add(`b:${words[i - 1]}_${word}`, HashedEmbedder.BIGRAM_WEIGHT);
+      }
+
+      // Character n-grams with boundary markers (catch morphology: bill/billed/billing)
+      const padded = `#${word}#`;
+      for (let j = 0; j + HashedEmbedder.CHAR_NGRAM <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + HashedEmbedder.CHAR_NGRAM)}`, HashedEmbedder.CHAR_WEIGHT);
+      }
+    });
+
+    const features = new Map<string, number>();
+    for (const [feature, count] of counts) {
+      features.set(feature, Math.log(1 + count));
+    }
+    return features;
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Text chunking utilities
+ * Splits long text into overlapping, sentence-aligned chunks within a token limit
+ */
+
+import { TokenCounter } from './token-counter.js';
+
+export interface TextChunk {
+  text: string;
+  start: number; // Character offset (inclusive)
+  end: number;   // Character offset (exclusive)
+}
+
+interface Sentence {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+export class TextChunker {
+  /**
+   * Split text into chunks of at most maxTokens, each starting with the trailing
+   * sentences (up to overlapTokens) of the previous chunk
+   */
+  static split(text: string, maxTokens: number, overlapTokens: number): TextChunk[] {
+    if (TokenCounter.countText(text) <= maxTokens) {
+      return [{ text, start: 0, end: text.length }];
+    }
+
+    const sentences = this.splitSentences(text);
+    const chunks: TextChunk[] = [];
+    let first = 0;
+
+    while (first < sentences.length) {
+      // Extend the chunk while sentences fit (a single oversized sentence still forms a chunk)
+      let last = first;
+      let tokens = sentences[first].tokens;
+      while (last + 1 < sentences.length && tokens + sentences[last + 1].tokens <= maxTokens) {
+        last++;
+        tokens += sentences[last].tokens;
+      }
+
+      const start = sentences[first].start;
+      const end = sentences[last].end;
+      chunks.push({ text: text.slice(start, end), start, end });
+
+      if (last === sentences.length - 1) {
+        break;
+      }
+
+      // Step back over trailing sentences that fit in the overlap, but always make progress
+      let next = last + 1;
+      let overlap = 0;
+      while (next - 1 > first && overlap + sentences[next - 1].tokens <= overlapTokens) {
+        next--;
+        overlap += sentences[next].tokens;
+      }
+      first = next;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Sentence boundaries (terminal punctuation or line breaks), with offsets into the text
+   */
+  private static splitSentences(text: string): Sentence[] {
+    const sentences: Sentence[] = [];
+    const pattern = /[^.!?\n]+(?:[.!?]+|\n+|$)\s*/g;
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      // Trailing whitespace is excluded so chunk offsets match the chunk text
+      sentences.push({
+        start,
+        end: start + match[0].trimEnd().length,
+        tokens: TokenCounter.countText(match[0])
+      });
+    }
+
+    return sentences.length > 0 ? sentences : [{ start: 0, end: text.length, tokens: TokenCounter.countText(text) }];
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Text truncation utilities
+ * Shortens text to a token limit by keeping its head and tail around an explicit marker
+ */
+
+import { TokenCounter } from './token-counter.js';
+
+export interface TruncatedText {
+  text: string;
+  truncatedTokens: number; // Tokens removed from the middle (0 when the text already fit)
+}
+
+export class TextTruncator {
+  /**
+   * Marker replacing the removed middle of a text
+   */
+  static marker(truncatedTokens: number): string {
+    return `[...truncated ${truncatedTokens} tokens...]`;
+  }
+
+  /**
+   * Keep the beginning and the end of the text (equal shares), at most maxTokens including the marker
+   * Returns an empty text when not even the marker fits
+   */
+  static truncateMiddle(text: string, maxTokens: number): TruncatedText {
+    const totalTokens = TokenCounter.countText(text);
+    if (totalTokens <= maxTokens) {
+      return { text, truncatedTokens: 0 };
+    }
+
+    const build = (keepChars: number): TruncatedText => {
+      const head = text.slice(0, Math.ceil(keepChars / 2)).trimEnd();
+      const tail = keepChars > 1 ? text.slice(text.length - Math.floor(keepChars / 2)).trimStart() : '';
+      const truncatedTokens = Math.max(totalTokens - TokenCounter.countText(head) - TokenCounter.countText(tail), 1);
+      return { text: [head, this.marker(truncatedTokens), tail].filter(Boolean).join('\n'), truncatedTokens };
+    };
+
+    // Largest number of kept characters that fits (counts grow with the kept characters)
+    let low = 0;
+    let high = text.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (TokenCounter.countText(build(middle).text) <= maxTokens) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    // Counts are not strictly monotonic (BPE merges at the cut): back off until the result fits
+    let keepChars = low;
+    while (keepChars > 0 && TokenCounter.countText(build(keepChars).text) > maxTokens) {
+      keepChars = Math.floor(keepChars * 0.9);
+    }
+
+    const truncated = build(keepChars);
+    return TokenCounter.countText(truncated.text) <= maxTokens ? truncated : { text: '', truncatedTokens: totalTokens };
+  }
+}
@@ -1,34 +1,66 @@
 /**
  * Token counter utility
- * Uses simple character-based approximation: 1 token ≈ 4 characters
+ * Counts tokens with the BPE tokenizer of the configured model
+ * (falls back to 1 token ≈ 4 characters when vocab files are unavailable)
  */
 
 import { Message, KnowledgeEntry, MemoryEntry } from '../types/index.js';
+import { CONFIG } from '../config.js';
+import { Tokenizer, createTokenizer } from './tokenizer.js';
 
 export class TokenCounter {
-  private static readonly CHARS_PER_TOKEN = 4;
+  private static tokenizer: Tokenizer | null = null;
+
+  // Per-message framing tokens and the tokens priming the assistant reply (OpenAI chat format)
+  static readonly MESSAGE_OVERHEAD = 3;
+  static readonly REPLY_PRIMING = 3;
 
   /**
-   * Estimate tokens for a text string
+   * Get the active tokenizer (created lazily from CONFIG)
+   */
+  static getTokenizer(): Tokenizer {
+    if (!this.tokenizer) {
+      this.tokenizer = createTokenizer(CONFIG.TOKENIZER, CONFIG.AGENT_MODEL, CONFIG.TOKENIZER_VOCAB_DIR);
+    }
+    return this.tokenizer;
+  }
+
+  /**
+   * Replace the active tokenizer
+   */
+  static setTokenizer(tokenizer: Tokenizer): void {
+    this.tokenizer = tokenizer;
+  }
+
+  /**
+   * Count tokens for a text string
    */
   static countText(text: string): number {
-    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+    return this.getTokenizer().count(text);
   }
 
   /**
-   * Count tokens in a message
+   * Count tokens in a chat message, including the role and separator overhead
+   * (<|start|>role<|message|>content<|end|>)
    */
-  static countMessage(message: Message): number {
-    return this.countText(message.content);
+  static countMessage(message: Pick<Message, 'role' | 'content'>): number {
+    return this.MESSAGE_OVERHEAD + this.countText(message.role) + this.countText(message.content);
   }
 
   /**
    * Count tokens in multiple messages
    */
-  static countMessages(messages: Message[]): number {
+  static countMessages(messages: Pick<Message, 'role' | 'content'>[]): number {
     return messages.reduce((total, msg) => total + this.countMessage(msg), 0);
   }
 
+  /**
+   * Count tokens for a complete chat request (messages + reply priming)
+   */
+  static countChat(messages: Pick<Message, 'role' | 'content'>[]): number {
+    return this.countMessages(messages) + this.REPLY_PRIMING;
+  }
+
   /**
    * Count tokens in a knowledge entry (title + content)
    */
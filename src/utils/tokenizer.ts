@@ -0,0 +1,214 @@
+/**
+ * Tokenizers
+ * Local byte-pair encoding (cl100k_base / o200k_base) with a character-based fallback
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+export type BpeEncodingName = 'cl100k_base' | 'o200k_base';
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+// Contractions are matched case-insensitively by tiktoken via (?i:...), which JS regexes do not support inline
+const CONTRACTIONS = `'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])`;
+
+// Pre-tokenization patterns, ported from tiktoken
+const SPLIT_PATTERNS: Record<BpeEncodingName, RegExp> = {
+  cl100k_base: new RegExp(
+    `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    'gu'
+  ),
+  o200k_base: new RegExp(
+    [
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+      `\\p{N}{1,3}`,
+      ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+      `\\s*[\\r\\n]+`,
+      `\\s+(?!\\S)`,
+      `\\s+`
+    ].join('|'),
+    'gu'
+  )
+};
+
+// Model name prefixes mapped to their encoding (checked in order, first match wins)
+const MODEL_ENCODINGS: Array<[string, BpeEncodingName]> = [
+  ['gpt-4o', 'o200k_base'],
+  ['gpt-4.1', 'o200k_base'],
+  ['gpt-4.5', 'o200k_base'],
+  ['gpt-5', 'o200k_base'],
+  ['o1', 'o200k_base'],
+  ['o3', 'o200k_base'],
+  ['o4', 'o200k_base'],
+  ['gpt-4', 'cl100k_base'],
+  ['gpt-3.5', 'cl100k_base'],
+  ['text-embedding-3', 'cl100k_base'],
+  ['text-embedding-ada-002', 'cl100k_base']
+];
+
+/**
+ * Character-based approximation: 1 token ≈ 4 characters
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  count(text: string): number {
+    return Math.ceil(text.length / HeuristicTokenizer.CHARS_PER_TOKEN);
+  }
+}
+
+/**
+ * Byte-level BPE tokenizer reading tiktoken vocab files (one "<base64 token> <rank>" per line)
+ */
+export class BpeTokenizer implements Tokenizer {
+  private static readonly MAX_CACHE_SIZE = 50000;
+
+  // Byte sequences are keyed as latin1 strings (one char per byte)
+  private readonly ranks: Map<string, number>;
+  private readonly pattern: RegExp;
+  private readonly pieceCache = new Map<string, number[]>();
+
+  constructor(readonly name: BpeEncodingName, ranks: Map<string, number>) {
+    this.ranks = ranks;
+    this.pattern = SPLIT_PATTERNS[name];
+  }
+
+  /**
+   * Load a tokenizer from a .tiktoken vocab file
+   */
+  static fromFile(name: BpeEncodingName, vocabPath: string): BpeTokenizer {
+    const ranks = new Map<string, number>();
+    const data = readFileSync(vocabPath, 'utf-8');
+
+    for (const line of data.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      const [token, rank] = line.split(' ');
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), parseInt(rank, 10));
+    }
+
+    if (ranks.size === 0) {
+      throw new Error(`Vocab file is empty: ${vocabPath}`);
+    }
+
+    return new BpeTokenizer(name, ranks);
+  }
+
+  /**
+   * Encode text into token ids (special tokens are treated as ordinary text)
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const match of text.matchAll(this.pattern)) {
+      tokens.push(...this.encodePiece(match[0]));
+    }
+    return tokens;
+  }
+
+  count(text: string): number {
+    let total = 0;
+    for (const match of text.matchAll(this.pattern)) {
+      total += this.encodePiece(match[0]).length;
+    }
+    return total;
+  }
+
+  /**
+   * Encode one pre-tokenized piece, merging the lowest-ranked byte pair until no merge applies
+   */
+  private encodePiece(piece: string): number[] {
+    const cached = this.pieceCache.get(piece);
+    if (cached) {
+      return cached;
+    }
+
+    const bytes = Buffer.from(piece, 'utf-8').toString('latin1');
+    let tokens: number[];
+
+    const direct = this.ranks.get(bytes);
+    if (direct !== undefined) {
+      tokens = [direct];
+    } else {
+      // Boundaries between the current parts (initially one part per byte)
+      const boundaries = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+
+      while (boundaries.length > 2) {
+        let bestRank = Infinity;
+        let bestIndex = -1;
+
+        for (let i = 0; i < boundaries.length - 2; i++) {
+          const rank = this.ranks.get(bytes.slice(boundaries[i], boundaries[i + 2]));
+          if (rank !== undefined && rank < bestRank) {
+            bestRank = rank;
+            bestIndex = i;
+          }
+        }
+
+        if (bestIndex === -1) {
+          break; // No more merges possible
+        }
+        boundaries.splice(bestIndex + 1, 1);
+      }
+
+      tokens = [];
+      for (let i = 0; i < boundaries.length - 1; i++) {
+        const rank = this.ranks.get(bytes.slice(boundaries[i], boundaries[i + 1]));
+        if (rank === undefined) {
+          throw new Error(`Byte sequence missing from ${this.name} vocab`);
+        }
+        tokens.push(rank);
+      }
+    }
+
+    if (this.pieceCache.size >= BpeTokenizer.MAX_CACHE_SIZE) {
+      this.pieceCache.clear();
+    }
+    this.pieceCache.set(piece, tokens);
+
+    return tokens;
+  }
+}
+
+/**
+ * Resolve the BPE encoding used by a model (defaults to o200k_base for unknown models)
+ */
+export function getEncodingForModel(model: string): BpeEncodingName {
+  const normalized = model.toLowerCase();
+  const match = MODEL_ENCODINGS.find(([prefix]) => normalized.startsWith(prefix));
+  return match ? match[1] : 'o200k_base';
+}
+
+/**
+ * Create the tokenizer for a model, falling back to the heuristic when vocab files are missing
+ */
+export function createTokenizer(
+  mode: 'bpe' | 'heuristic',
+  model: string,
+  vocabDir: string
+): Tokenizer {
+  if (mode === 'heuristic') {
+    return new HeuristicTokenizer();
+  }
+
+  const encoding = getEncodingForModel(model);
+  const vocabPath = join(vocabDir, `${encoding}.tiktoken`);
+
+  if (!existsSync(vocabPath)) {
+    console.warn(`Tokenizer vocab not found at ${vocabPath}. Falling back to heuristic token counting.`);
+    return new HeuristicTokenizer();
+  }
+
+  try {
+    return BpeTokenizer.fromFile(encoding, vocabPath);
+  } catch (error) {
+    console.warn(`Failed to load tokenizer vocab ${vocabPath}, falling back to heuristic:`, error);
+    return new HeuristicTokenizer();
+  }
+}
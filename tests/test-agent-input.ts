@@ -0,0 +1,152 @@
+/**
+ * Test script for the agent input payload
+ * Snapshots the input items passed to run() for fixed contexts: system prompt, memory, knowledge,
+ * summary and previous turns as separate items, the current user message last.
+ * Regenerate the snapshots after an intended change with UPDATE_SNAPSHOTS=true
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ContextManager } from '../src/services/context-manager.js';
+import { Summarizer } from '../src/services/summarization.js';
+import { TokenCounter } from '../src/utils/token-counter.js';
+import { CONFIG } from '../src/config.js';
+import { ContextInputItem, KnowledgeEntry, MemoryEntry, Message } from '../src/types/index.js';
+
+const SNAPSHOT_PATH = path.join(process.cwd(), 'tests', 'snapshots', 'agent-input.json');
+const UPDATE = process.env.UPDATE_SNAPSHOTS === 'true';
+
+// Never called: the summary is restored from a checkpoint
+class UnusedSummarizer implements Summarizer {
+  async summarizeMessages(): Promise<Message> {
+    throw new Error('Summarizer should not be called');
+  }
+
+  shouldSummarize(): boolean {
+    return false;
+  }
+}
+
+const MEMORIES: MemoryEntry[] = [
+  { id: 'mem_1', category: 'preference', content: 'Prefers answers as short bullet lists', date: '2024-05-01T10:00:00.000Z' },
+  { id: 'mem_2', category: 'fact', content: 'Works on the billing team', date: '2024-05-02T10:00:00.000Z' }
+];
+
+const KNOWLEDGE: KnowledgeEntry[] = [
+  { id: 'doc_refunds', title: 'Refund policy', content: 'Refunds are issued within 14 days of purchase.' }
+];
+
+const HISTORY: Message[] = [
+  { role: 'user', content: 'How do invoices work?', timestamp: 1000 },
+  { role: 'assistant', content: 'Invoices are generated on the first day of each month.', timestamp: 1010 },
+  { role: 'user', content: 'Can I change the billing address?', timestamp: 1020 },
+  { role: 'assistant', content: 'Yes, from Settings > Billing.', timestamp: 1030 },
+  { role: 'user', content: 'Where do I see my plan?', timestamp: 1040 },
+  { role: 'assistant', content: 'Your plan is shown on the dashboard.', timestamp: 1050 },
+  { role: 'user', content: 'Can I get a refund?', timestamp: 1060 }
+];
+
+const SUMMARY: Message = {
+  role: 'system',
+  content: '[Previous conversation summary: the user asked about monthly invoices and changing the billing address]',
+  timestamp: 1030
+};
+
+async function renderScenarios(): Promise<Record<string, ContextInputItem[]>> {
+  // First turn: nothing retrieved, only the query
+  const empty = new ContextManager({ compressionStrategy: 'prune', allocator: null });
+  const firstTurn = await empty.buildContext([HISTORY[0]], [], [], HISTORY[0].content);
+
+  // Later turn: the first two exchanges are covered by a restored summary
+  const contextManager = new ContextManager({ summarizer: new UnusedSummarizer(), compressionStrategy: 'summarize', allocator: null });
+  contextManager.importSummaryState({
+    longRange: null,
+    longRangeCount: 0,
+    segments: [{ summary: SUMMARY, messageCount: 4 }],
+    coveredCount: 4,
+    coveredUntil: HISTORY[3].timestamp
+  });
+  const query = HISTORY[HISTORY.length - 1].content;
+  const laterTurn = await contextManager.buildContext(HISTORY, MEMORIES, KNOWLEDGE, query);
+
+  return { firstTurn: firstTurn.input, laterTurn: laterTurn.input };
+}
+
+async function testAgentInput() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING AGENT INPUT PAYLOAD');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const scenarios = await renderScenarios();
+
+  // STRUCTURE: one item per section and turn, in order
+  const roles = scenarios.laterTurn.map(item => item.role);
+  check(
+    JSON.stringify(roles) === JSON.stringify(['system', 'system', 'system', 'system', 'user', 'assistant', 'user']),
+    `System prompt, memory, knowledge, summary, two turns and the query (got ${roles.join(', ')})`
+  );
+  check(scenarios.laterTurn[3].content === SUMMARY.content, 'Summary is a system item of its own');
+  check(
+    scenarios.laterTurn.filter(item => item.role === 'user' && item.content === 'Can I get a refund?').length === 1,
+    'Current query is sent once, as the last item'
+  );
+  check(scenarios.firstTurn.length === 3, 'First turn: system prompt, no-context note and the query');
+
+  // BUDGET: the query is counted once, so a long query does not push out history that fits the conversation budget
+  const conversationBudget = Math.floor(CONFIG.MAX_TOKENS * CONFIG.BUDGET_CONVERSATION_PCT / 100);
+  const longHistory: Message[] = [];
+  while (TokenCounter.countMessages(longHistory) < conversationBudget * 0.6) {
+    const i = longHistory.length;
+    longHistory.push({ role: i % 2 === 0 ? 'user' : 'assistant', content: `Turn ${i}: invoices are generated on the first day of each month.`, timestamp: i });
+  }
+  let longQuery = 'Can I get a refund?';
+  while (TokenCounter.countText(longQuery) < conversationBudget * 0.5) {
+    longQuery += ' I was charged twice for the same plan last month.';
+  }
+  const prune = new ContextManager({ compressionStrategy: 'prune', allocator: null });
+  const longTurn = await prune.buildContext([...longHistory, { role: 'user', content: longQuery, timestamp: 999 }], [], [], longQuery);
+  check(
+    longTurn.conversationHistory.length === longHistory.length,
+    `Long query keeps the fitting history (${longTurn.conversationHistory.length}/${longHistory.length} messages)`
+  );
+
+  // SNAPSHOT: the rendered payload is unchanged
+  const rendered = JSON.stringify(scenarios, null, 2) + '\n';
+  if (UPDATE || !fs.existsSync(SNAPSHOT_PATH)) {
+    fs.mkdirSync(path.dirname(SNAPSHOT_PATH), { recursive: true });
+    fs.writeFileSync(SNAPSHOT_PATH, rendered);
+    console.log(`📝 Snapshot written to ${path.relative(process.cwd(), SNAPSHOT_PATH)}`);
+  } else {
+    const expected = fs.readFileSync(SNAPSHOT_PATH, 'utf-8');
+    check(rendered === expected, 'Rendered payload matches the snapshot');
+    if (rendered !== expected) {
+      const expectedLines = expected.split('\n');
+      const index = rendered.split('\n').findIndex((line, i) => line !== expectedLines[i]);
+      console.log(`   First difference at line ${index + 1}:`);
+      console.log(`   - ${expectedLines[index]}`);
+      console.log(`   + ${rendered.split('\n')[index]}`);
+      console.log('   Run with UPDATE_SNAPSHOTS=true if the change is intended');
+    }
+  }
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ AGENT INPUT TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ AGENT INPUT TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testAgentInput().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,112 @@
+/**
+ * Test script for the BUDGET ALLOCATOR
+ * Deterministic, no API key needed: own share first, then unused budget by priority,
+ * then borrowing from lower-priority sections down to their minimum
+ */
+
+import { BudgetAllocation, BudgetAllocator, BudgetSection } from '../src/services/budget-allocator.js';
+
+// 1,000 tokens: min 100 for every section, max 300 / 500 / 600
+const MAX_TOKENS = 1000;
+const LIMITS = {
+  memory: { min: 10, max: 30 },
+  knowledge: { min: 10, max: 50 },
+  conversation: { min: 10, max: 60 }
+};
+const BASE: Record<BudgetSection, number> = { memory: 200, knowledge: 300, conversation: 400 };
+
+const demand = (memory: number, knowledge: number, conversation: number) => ({ memory, knowledge, conversation });
+const budgets = (allocation: BudgetAllocation) =>
+  `${allocation.budgets.memory}/${allocation.budgets.knowledge}/${allocation.budgets.conversation}`;
+const transfers = (allocation: BudgetAllocation) =>
+  allocation.transfers.map(transfer => `${transfer.to}+${transfer.tokens}<${transfer.from}`).join(', ');
+
+async function testBudgetAllocator() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING BUDGET ALLOCATOR');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const allocator = new BudgetAllocator(MAX_TOKENS, ['memory', 'knowledge', 'conversation'], LIMITS);
+
+  // 1. OWN SHARE: every section gets what it needs of its configured share
+  const fits = allocator.allocate(BASE, demand(50, 300, 400));
+  check(budgets(fits) === '50/300/400' && fits.transfers.length === 0, `Demands within the shares are met as is (got ${budgets(fits)})`);
+
+  // 2. UNUSED BUDGET: what memory does not need goes to the sections over their share, highest priority first
+  const unused = allocator.allocate(BASE, demand(50, 450, 450));
+  check(budgets(unused) === '50/450/400', `Knowledge takes the 150 unused tokens before conversation (got ${budgets(unused)})`);
+  check(transfers(unused) === 'knowledge+150<unused', `The transfer is recorded (got ${transfers(unused)})`);
+
+  // 3. BORROWING: still short, higher-priority sections borrow from the lowest-priority one, down to its minimum
+  const borrow = allocator.allocate(BASE, demand(300, 500, 600));
+  check(budgets(borrow) === '300/500/100', `Memory and knowledge borrow from conversation (got ${budgets(borrow)})`);
+  check(
+    transfers(borrow) === 'memory+100<conversation, knowledge+200<conversation',
+    `Conversation lends down to its minimum of 100 (got ${transfers(borrow)})`
+  );
+  const total = (allocation: BudgetAllocation) =>
+    allocation.budgets.memory + allocation.budgets.knowledge + allocation.budgets.conversation;
+  check(total(borrow) === 900 && total(unused) === 900, 'Rebalancing never exceeds the sum of the shares');
+
+  // Lenders are taken lowest priority first: conversation at its minimum, then knowledge
+  const twoLenders = allocator.allocate({ memory: 100, knowledge: 300, conversation: 150 }, demand(300, 300, 150));
+  check(
+    budgets(twoLenders) === '300/150/100' && transfers(twoLenders) === 'memory+50<conversation, memory+150<knowledge',
+    `Memory borrows from conversation, then from knowledge (got ${budgets(twoLenders)}: ${transfers(twoLenders)})`
+  );
+
+  // MAXIMUM: a section never exceeds its max, even with budget to spare
+  const capped = allocator.allocate(BASE, demand(5000, 0, 0));
+  check(budgets(capped) === '300/0/0', `Memory is capped at its maximum of 300 (got ${budgets(capped)})`);
+
+  // BUDGET_PRIORITY: the same demand with conversation first
+  const conversationFirst = new BudgetAllocator(MAX_TOKENS, ['conversation', 'knowledge', 'memory'], LIMITS);
+  const reordered = conversationFirst.allocate(BASE, demand(50, 450, 450));
+  check(budgets(reordered) === '50/400/450', `Conversation is served first from the unused budget (got ${budgets(reordered)})`);
+  check(transfers(reordered) === 'conversation+50<unused, knowledge+100<unused', `Then knowledge (got ${transfers(reordered)})`);
+  const reversed = conversationFirst.allocate(BASE, demand(300, 500, 600));
+  check(
+    budgets(reversed) === '100/200/600' && transfers(reversed) === 'conversation+100<memory, conversation+100<knowledge',
+    `Conversation borrows from memory first, then from knowledge (got ${budgets(reversed)}: ${transfers(reversed)})`
+  );
+
+  // Sections missing from the priority list come last, unknown ones are refused
+  const partial = new BudgetAllocator(MAX_TOKENS, ['knowledge'], LIMITS);
+  check(partial.describe(fits)[0] === 'Priority: knowledge > memory > conversation', 'Missing sections follow in their default order');
+  let priorityError = '';
+  try {
+    new BudgetAllocator(MAX_TOKENS, ['knowledge', 'tools'], LIMITS);
+  } catch (error) {
+    priorityError = (error as Error).message;
+  }
+  check(priorityError.startsWith('Unknown budget section "tools" in BUDGET_PRIORITY'), 'An unknown section in BUDGET_PRIORITY is refused');
+
+  // DEBUG breakdown
+  const lines = allocator.describe(borrow);
+  check(
+    lines.includes('Memory:       demand 300, share 200 → 300 tokens (min 100, max 300)') &&
+      lines.includes('↳ knowledge +200 from conversation'),
+    'The breakdown lists each section and transfer'
+  );
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ BUDGET ALLOCATOR TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ BUDGET ALLOCATOR TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testBudgetAllocator().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
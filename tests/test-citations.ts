@@ -0,0 +1,73 @@
+/**
+ * Test script for CITATIONS
+ * Deterministic, no API key needed: [doc_id] extraction and verification against the context window
+ */
+
+import { CitationService } from '../src/services/citation.js';
+import { KnowledgeEntry } from '../src/types/index.js';
+
+const KNOWLEDGE_BASE: KnowledgeEntry[] = [
+  { id: 'doc_12', title: 'Password Reset', content: 'Reset your password from the login page.' },
+  { id: 'doc_7', title: 'Two-factor authentication', content: 'Enable 2FA in the security settings.' },
+  { id: 'guides/sso', title: 'Single sign-on', content: 'Enable SAML in the admin console.' }
+];
+
+async function testCitations() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING CITATIONS');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const citations = new CitationService(id => KNOWLEDGE_BASE.find(entry => entry.id === id));
+
+  // EXTRACTION: single and grouped citations, unique in order of first use
+  const extracted = citations.extractCitations(
+    'Reset it from the login page [doc_12]. Then enable 2FA [doc_7, doc_12; guides/sso] and check [doc_7].'
+  );
+  check(extracted.join() === 'doc_12,doc_7,guides/sso', `Grouped citations are split and deduplicated (got ${extracted.join()})`);
+  check(citations.extractCitations('See [doc_12#2] and [doc_12#0].').join() === 'doc_12', 'Passage suffixes are dropped');
+  check(citations.extractCitations('See the [docs](https://example.com).').length === 0, 'A markdown link is not a citation');
+  check(citations.extractCitations('Choose [A or B] here.').length === 0, 'Bracketed text with spaces is not a citation');
+  check(citations.extractCitations('As shown in [1] and [2, 3].').length === 0, 'Bare numbers are footnotes, not citations');
+  check(citations.extractCitations('- [x] Done\n- [TODO] check [doc_7, 12]').length === 0, 'Task boxes, bracketed words and mixed groups are not citations');
+  check(citations.extractCitations('See [guides_getting_started] and [DOC_12].').join() === 'guides_getting_started,DOC_12', 'Ids derived from file paths are citations');
+  check(citations.extractCitations('No sources here.').length === 0, 'A response without brackets cites nothing');
+
+  // VERIFICATION: cited entries must have been in the context window
+  const context = [KNOWLEDGE_BASE[0]];
+  const report = citations.verify('Reset it from the login page [doc_12], with 2FA [doc_7] and a refund [doc_99].', context);
+  check(report.cited.map(entry => entry.id).join() === 'doc_12', 'An id from the context is a verified citation');
+  check(report.unverified.join() === 'doc_7', 'An id from the knowledge base that was not in the context is unverified');
+  check(report.unknown.join() === 'doc_99', 'An id that does not exist is unknown');
+
+  const footer = citations.formatFooter(report);
+  check(
+    footer === 'Sources:\n  [doc_12] Password Reset\n⚠️ Not in context: [doc_7]\n⚠️ Unknown sources: [doc_99]',
+    'The footer lists verified sources by title and warns about the others'
+  );
+  check(citations.formatFooter(citations.verify('No sources here.', context)) === '', 'No footer without citations');
+
+  // Without a knowledge base lookup every id outside the context is unknown
+  const contextOnly = new CitationService().verify('See [doc_7].', context);
+  check(contextOnly.unknown.join() === 'doc_7' && contextOnly.unverified.length === 0, 'Without a lookup, ids outside the context are unknown');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ CITATIONS TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ CITATIONS TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testCitations().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
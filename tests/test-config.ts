@@ -0,0 +1,86 @@
+/**
+ * Test script for CONFIGURATION validation
+ * Deterministic, no API key needed: COMPRESSION_STRATEGY names and chains, cross-field checks,
+ * and invalid settings reported at startup without a stack trace
+ */
+
+import { spawnSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import { COMPRESSION_STRATEGIES, ConfigSchema } from '../src/config.js';
+import { CompressionStrategyRegistry } from '../src/services/compression-strategies.js';
+
+// Issues of a settings object, as "KEY: message"
+const issues = (raw: Record<string, string>) => {
+  const result = ConfigSchema.safeParse(raw);
+  return result.success ? [] : result.error.issues.map(issue => `${String(issue.path[0])}: ${issue.message}`);
+};
+
+async function testConfig() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING CONFIGURATION');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  // COMPRESSION_STRATEGY: registered names or "a+b" chains of them
+  check(issues({}).length === 0, 'The defaults are valid');
+  check(
+    ['prune', 'summarize', 'extractive', 'relevance', 'summarize+prune', 'relevance + extractive + prune'].every(name => issues({ COMPRESSION_STRATEGY: name }).length === 0),
+    'Every built-in strategy and chains of them are accepted'
+  );
+  check(
+    issues({ COMPRESSION_STRATEGY: 'fifo' })[0] ===
+      'COMPRESSION_STRATEGY: Unknown strategy "fifo" (expected prune, summarize, extractive, relevance or a chain such as summarize+prune)',
+    'An unknown strategy is refused with the valid names'
+  );
+  check(issues({ COMPRESSION_STRATEGY: 'summarize+fifo+lifo' })[0]?.includes('"fifo", "lifo"'), 'Every unknown step of a chain is reported');
+  check(issues({ COMPRESSION_STRATEGY: 'summarize+' }).length === 1, 'An empty chain step is refused');
+  check(
+    CompressionStrategyRegistry.createDefault().names().join() === COMPRESSION_STRATEGIES.join(),
+    'The accepted names are the strategies the default registry provides'
+  );
+
+  // Other checks are reported together with it
+  const several = issues({ COMPRESSION_STRATEGY: 'fifo', MAX_TOKENS: 'abc', BUDGET_PRIORITY: 'memory,tools' });
+  check(
+    several.length === 3 && ['COMPRESSION_STRATEGY', 'MAX_TOKENS', 'BUDGET_PRIORITY'].every(key => several.some(issue => issue.startsWith(key))),
+    `Every invalid setting is reported at once (got ${several.length})`
+  );
+  check(issues({ BUDGET_MEMORY_PCT: '30' })[0]?.startsWith('BUDGET_*_PCT: Budget percentages must add up to 100'), 'Budget shares must add up to 100');
+
+  // STARTUP: the entry point lists the issues and exits, without a stack trace
+  const entryPoint = fileURLToPath(new URL('../src/index.js', import.meta.url));
+  const startup = spawnSync(process.execPath, [entryPoint], {
+    env: { ...process.env, COMPRESSION_STRATEGY: 'summarize+fifo', MAX_TOKENS: 'abc' },
+    input: '',
+    encoding: 'utf-8',
+    timeout: 30000
+  });
+  check(startup.status === 1, `An invalid configuration exits with status 1 (got ${startup.status})`);
+  check(
+    startup.stderr.includes('Invalid configuration (environment):') &&
+      startup.stderr.includes('  - COMPRESSION_STRATEGY: Unknown strategy "fifo"') &&
+      startup.stderr.includes('  - MAX_TOKENS:'),
+    'The issues are printed one per line'
+  );
+  check(!/\n\s+at /.test(startup.stderr) && !startup.stderr.includes('ConfigError:'), 'No stack trace is printed');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ CONFIGURATION TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ CONFIGURATION TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testConfig().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
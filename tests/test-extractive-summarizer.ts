@@ -0,0 +1,126 @@
+/**
+ * Test script for the EXTRACTIVE SUMMARIZER
+ * Deterministic, no API key needed (heuristic tokenizer): sentence scoring, conversation order,
+ * details of dropped sentences and the size limit, including text that has to be cut
+ */
+
+import { ExtractiveSummarizer } from '../src/services/extractive-summarizer.js';
+import { TokenCounter } from '../src/utils/token-counter.js';
+import { HeuristicTokenizer, Tokenizer } from '../src/utils/tokenizer.js';
+import { Message } from '../src/types/index.js';
+
+// Heuristic counts, plus the number of count() calls
+class CountingTokenizer implements Tokenizer {
+  readonly name = 'counting';
+  calls = 0;
+  private readonly heuristic = new HeuristicTokenizer();
+
+  count(text: string): number {
+    this.calls++;
+    return this.heuristic.count(text);
+  }
+}
+
+const message = (role: Message['role'], content: string, timestamp: number): Message => ({ role, content, timestamp });
+
+const CONVERSATION: Message[] = [
+  message('user', 'The billing export keeps failing. Nice weather today. Thanks!', 1),
+  message('assistant', 'Billing exports run nightly from the billing database. Which export format do you use?', 2),
+  message('user', 'We export billing data as CSV for Alice in Finance.', 3),
+  message('assistant', 'The export job times out after 30 minutes on large billing accounts.', 4)
+];
+
+async function testExtractiveSummarizer() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING EXTRACTIVE SUMMARIZER');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const tokenizer = new CountingTokenizer();
+  TokenCounter.setTokenizer(tokenizer);
+  const summarizer = new ExtractiveSummarizer();
+
+  // SCORING: with room for everything, every sentence is kept in conversation order, speakers named when they change
+  const full = summarizer.summarizeText(CONVERSATION, 200);
+  check(
+    full === 'User: The billing export keeps failing. Nice weather today. Thanks! ' +
+      'Assistant: Billing exports run nightly from the billing database. Which export format do you use? ' +
+      'User: We export billing data as CSV for Alice in Finance. ' +
+      'Assistant: The export job times out after 30 minutes on large billing accounts.',
+    'A generous target keeps the whole conversation'
+  );
+
+  // Frequent terms ("billing", "export") and details (names, numbers) outrank small talk and questions
+  const short = summarizer.summarizeText(CONVERSATION, 40);
+  check(
+    short.includes('CSV for Alice in Finance.') && short.includes('after 30 minutes'),
+    'Sentences with names and numbers are kept'
+  );
+  check(!short.includes('Nice weather') && !short.includes('Which export format'), 'Small talk and questions without details are dropped');
+  check(short.indexOf('Alice') < short.indexOf('30 minutes'), 'Kept sentences stay in conversation order');
+
+  const tight = summarizer.summarizeText(CONVERSATION, 30);
+  check(tight.endsWith(' Also mentioned: 30.'), `Details of dropped sentences are listed when they fit (got "${tight}")`);
+
+  // SIZE LIMIT: speaker labels and the details line included, never over the target (at least MIN_TARGET_TOKENS = 20)
+  const oversized: number[] = [];
+  for (let target = 10; target <= 120; target += 5) {
+    const tokens = TokenCounter.countText(summarizer.summarizeText(CONVERSATION, target));
+    if (tokens > Math.max(target, 20)) {
+      oversized.push(target);
+    }
+  }
+  check(oversized.length === 0, `Summaries fit every target from 10 to 120 tokens${oversized.length > 0 ? ` (over: ${oversized.join(', ')})` : ''}`);
+
+  // TRUNCATION: a best sentence over the target is cut after a word, a single oversized word mid-word
+  const words = Array.from({ length: 100 }, (_, i) => `billing${i}`);
+  const cut = summarizer.summarizeText([message('user', words.join(' ') + '.', 1)], 20);
+  check(TokenCounter.countText(cut) <= 20 && cut.endsWith('...'), `A long sentence is cut to the target (${TokenCounter.countText(cut)} tokens)`);
+  check(cut === words.slice(0, cut.split(' ').length).join(' ') + '...', 'The cut falls after a whole word');
+  check(TokenCounter.countText(words.slice(0, cut.split(' ').length + 1).join(' ') + '...') > 20, 'As many words as fit are kept');
+
+  const word = 'x'.repeat(400);
+  const cutWord = summarizer.summarizeText([message('user', word, 1)], 20);
+  check(cutWord === 'x'.repeat(77) + '...', `A single word over the target is cut to fit (${cutWord.length} characters)`);
+
+  // Binary search: cutting a 20,000-word sentence takes a logarithmic number of counts, not one per word
+  const hugeWords = Array.from({ length: 20000 }, (_, i) => `word${i}`).join(' ') + '.';
+  tokenizer.calls = 0;
+  summarizer.summarizeText([message('user', hugeWords, 1)], 20);
+  check(tokenizer.calls < 40, `Cutting a 20,000-word sentence counts tokens ${tokenizer.calls} times`);
+
+  // MESSAGES: wrapped as a system message; previous summaries are summarized by their content
+  const summary = await summarizer.summarizeMessages(CONVERSATION, 200);
+  check(summary.role === 'system' && summary.content === `[Previous conversation summary: ${full}]`, 'The summary is wrapped in a system message');
+  const resummarized = summarizer.summarizeText([summary], 200);
+  check(!resummarized.includes('[Previous conversation'), 'Previous summaries are unwrapped before summarizing again');
+  let emptyError = '';
+  try {
+    await summarizer.summarizeMessages([], 100);
+  } catch (error) {
+    emptyError = (error as Error).message;
+  }
+  check(emptyError === 'Cannot summarize empty message array', 'An empty batch is refused');
+  check(summarizer.summarizeText([message('user', 'Ok.', 1), message('assistant', '...', 2)], 50) === '2 messages without text', 'Messages without keywords are only counted');
+  check(summarizer.shouldSummarize(4, 101) && !summarizer.shouldSummarize(3, 500) && !summarizer.shouldSummarize(10, 100), 'Summarizes from 4 messages and over 100 tokens');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ EXTRACTIVE SUMMARIZER TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ EXTRACTIVE SUMMARIZER TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testExtractiveSummarizer().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+/**
+ * Test script for the GUARANTEED HARD LIMIT
+ * Property test: for random histories, memories, knowledge and queries (including oversized pasted logs),
+ * the rendered context never exceeds MAX_TOKENS. Reproducible with TEST_SEED=<n>
+ */
+
+import { ContextManager } from '../src/services/context-manager.js';
+import { ExtractiveSummarizer } from '../src/services/extractive-summarizer.js';
+import { TokenCounter } from '../src/utils/token-counter.js';
+import { CONFIG } from '../src/config.js';
+import { ContextInputItem, KnowledgeEntry, MemoryEntry, Message } from '../src/types/index.js';
+
+const CASES = 60;
+const SEED = parseInt(process.env.TEST_SEED || '1500', 10);
+const STRATEGIES = ['prune', 'relevance', 'extractive', 'extractive+prune'];
+
+// Small seeded PRNG (mulberry32) so failures can be replayed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = ['billing', 'invoice', 'the', 'customer', 'plan', 'error', 'timeout', 'refund', 'account', 'is',
+  'PostgreSQL', 'deploy', 'at', 'server', 'request', 'failed', 'user', 'admin', 'export', 'report'];
+
+function makeGenerators(random: () => number) {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(items: T[]) => items[int(0, items.length - 1)];
+
+  // Prose, or a pasted log when oversized
+  const text = (maxWords: number, oversizeChance: number): string => {
+    if (random() < oversizeChance) {
+      const lines = int(150, 600);
+      return Array.from({ length: lines }, (_, i) =>
+        `2024-05-${String(int(1, 28)).padStart(2, '0')}T12:${String(i % 60).padStart(2, '0')}:00Z ERROR [${pick(WORDS)}] ` +
+        `${pick(WORDS)} ${pick(WORDS)} id=${int(1000, 99999)} latency=${int(1, 900)}ms`
+      ).join('\n');
+    }
+    const words = Array.from({ length: int(1, maxWords) }, () => pick(WORDS));
+    return words.join(' ') + pick(['.', '?', '!', '']);
+  };
+
+  return { int, pick, text };
+}
+
+// Text of an input item as the model sees it (assistant turns are output_text parts)
+function itemText(item: ContextInputItem): string {
+  if (typeof item.content === 'string') {
+    return item.content;
+  }
+  let text = '';
+  for (const part of item.content) {
+    text += 'text' in part && typeof part.text === 'string' ? part.text : '';
+  }
+  return text;
+}
+
+async function testHardLimit() {
+  console.log('\n' + '='.repeat(70));
+  console.log(`TESTING GUARANTEED HARD LIMIT (seed ${SEED}, ${CASES} cases, MAX_TOKENS=${CONFIG.MAX_TOKENS})`);
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    if (!condition) {
+      console.log(`❌ ${message}`);
+      passed = false;
+    }
+  };
+
+  const random = createRandom(SEED);
+  const { int, pick, text } = makeGenerators(random);
+  let truncatedCases = 0;
+  let maxSeen = 0;
+
+  // PROPERTY: totalTokens <= MAX_TOKENS, and it is the exact count of what is sent
+  for (let c = 0; c < CASES; c++) {
+    const strategy = pick(STRATEGIES);
+    const contextManager = new ContextManager({ summarizer: new ExtractiveSummarizer(), compressionStrategy: strategy });
+
+    const history: Message[] = Array.from({ length: int(0, 24) }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: text(80, 0.08),
+      timestamp: 1000 + i
+    }));
+    const query = text(40, 0.15);
+    history.push({ role: 'user', content: query, timestamp: 2000 });
+
+    const memories: MemoryEntry[] = Array.from({ length: int(0, 6) }, (_, i) => ({
+      id: `mem_${i}`,
+      category: 'fact',
+      content: text(60, 0.1),
+      date: new Date(0).toISOString()
+    }));
+    const knowledge: KnowledgeEntry[] = Array.from({ length: int(0, 5) }, (_, i) => ({
+      id: `doc_${i}`,
+      title: text(6, 0),
+      content: text(200, 0.1)
+    }));
+
+    const context = await contextManager.buildContext(history, memories, knowledge, query);
+    const rendered = TokenCounter.countChat(context.input.map(item => ({ role: item.role, content: itemText(item) })));
+
+    const label = `Case ${c} (${strategy}, ${history.length} messages, query ${TokenCounter.countText(query)} tokens)`;
+    check(context.totalTokens <= CONFIG.MAX_TOKENS, `${label}: ${context.totalTokens} > ${CONFIG.MAX_TOKENS} tokens`);
+    check(rendered === context.totalTokens, `${label}: reported ${context.totalTokens} tokens, rendered ${rendered}`);
+
+    maxSeen = Math.max(maxSeen, context.totalTokens);
+    if (context.input.some(item => itemText(item).includes('[...truncated'))) {
+      truncatedCases++;
+    }
+  }
+
+  console.log(`📊 Largest context: ${maxSeen}/${CONFIG.MAX_TOKENS} tokens, ${truncatedCases} cases needed truncation`);
+  check(truncatedCases > 0, 'Generated inputs exercise the truncation pass');
+
+  // EXAMPLE: a single pasted 5k-token log keeps its head and tail around the marker
+  const { text: generate } = makeGenerators(createRandom(SEED + 1));
+  let log = '';
+  while (TokenCounter.countText(log) < 5000) {
+    log += generate(1, 1) + '\n';
+  }
+  log = 'FIRST LINE OF THE LOG\n' + log + 'LAST LINE OF THE LOG';
+
+  const contextManager = new ContextManager({ compressionStrategy: 'prune' });
+  const pasted = await contextManager.buildContext([{ role: 'user', content: log, timestamp: 1 }], [], [], log);
+  check(pasted.totalTokens <= CONFIG.MAX_TOKENS, `Pasted log: ${pasted.totalTokens} > ${CONFIG.MAX_TOKENS} tokens`);
+  check(/\[\.\.\.truncated \d+ tokens\.\.\.\]/.test(pasted.query), 'Pasted log carries the truncation marker');
+  check(pasted.query.startsWith('FIRST LINE OF THE LOG') && pasted.query.endsWith('LAST LINE OF THE LOG'), 'Pasted log keeps its head and tail');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log(`❌ HARD LIMIT TEST FAILED (replay with TEST_SEED=${SEED})`);
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log(`✅ ${CASES} random contexts and a pasted 5k-token log fit within ${CONFIG.MAX_TOKENS} tokens`);
+  console.log('✅ HARD LIMIT TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testHardLimit().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
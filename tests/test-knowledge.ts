@@ -0,0 +1,257 @@
+/**
+ * Test script for the KNOWLEDGE BASE
+ * Deterministic, no API key needed (heuristic tokenizer): file loaders and record validation,
+ * reload diffs, chunk boundaries and overlap, and adjacent passages merged back into their parent entry
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TextChunker } from '../src/utils/text-chunker.js';
+import { TokenCounter } from '../src/utils/token-counter.js';
+import { HeuristicTokenizer } from '../src/utils/tokenizer.js';
+import { ContextManager } from '../src/services/context-manager.js';
+import { KnowledgeBaseService, KnowledgeDiff } from '../src/services/knowledge-base.js';
+import { CsvLoader, JsonLinesLoader, JsonLoader, KnowledgeLoaderRegistry, MarkdownLoader, idFromPath } from '../src/services/knowledge-loaders.js';
+import { KnowledgeEntry, KnowledgePassage } from '../src/types/index.js';
+
+// Ten sentences of 49 characters: 13 tokens each with the heuristic tokenizer (trailing space included)
+const SENTENCES = Array.from({ length: 10 }, (_, i) => `Sentence ${i} explains one billing detail at length.`);
+const LONG_TEXT = SENTENCES.join(' ');
+
+function toPassages(entry: KnowledgeEntry, maxTokens: number, overlapTokens: number): KnowledgePassage[] {
+  const chunks = TextChunker.split(entry.content, maxTokens, overlapTokens);
+  return chunks.map((chunk, index) => ({
+    ...entry,
+    id: `${entry.id}#${index}`,
+    content: chunk.text,
+    parentId: entry.id,
+    chunkIndex: index,
+    chunkCount: chunks.length,
+    start: chunk.start,
+    end: chunk.end
+  }));
+}
+
+async function testKnowledge() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING KNOWLEDGE BASE');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  TokenCounter.setTokenizer(new HeuristicTokenizer());
+
+  // CSV: quoted fields keep their commas, line breaks and "" escapes; CRLF line endings and blank lines are accepted
+  const csv = new CsvLoader().load({
+    relativePath: 'faq/Billing FAQ.csv',
+    content: [
+      'Question,Answer,Tags,Priority',
+      '"Can I pay by card, or by invoice?","Both. ""Invoice"" billing is for annual plans.","billing, payments",2',
+      '',
+      'How do refunds work?,"Refunds take 14 days.',
+      'Contact support first.",refunds,',
+      'Missing answer,,billing,',
+      'Bad priority,Some answer,,high'
+    ].join('\r\n')
+  });
+  const [card, refunds] = csv.entries;
+  check(csv.entries.length === 2, `Two valid rows out of four (got ${csv.entries.length})`);
+  check(card?.title === 'Can I pay by card, or by invoice?', 'A quoted comma stays inside the field');
+  check(card?.content === 'Both. "Invoice" billing is for annual plans.', 'Doubled quotes are unescaped');
+  check(refunds?.content === 'Refunds take 14 days.\r\nContact support first.', 'A quoted line break stays inside the field');
+  check(
+    card?.id === 'faq_billing_faq_2' && refunds?.id === 'faq_billing_faq_4' && card?.source === 'faq/Billing FAQ.csv',
+    `Rows without an id column get ids from the path and row number (got ${card?.id}, ${refunds?.id})`
+  );
+  check(card?.tags?.join() === 'billing,payments' && card?.priority === 2, 'Metadata columns become entry fields');
+  check(refunds?.priority === undefined, 'An empty metadata cell is ignored');
+  check(
+    csv.errors.length === 2 && csv.errors[0].startsWith('row 5: missing required fields') && csv.errors[1] === 'row 6: invalid priority "high"',
+    `Invalid rows are skipped and reported by record number (got ${csv.errors.join('; ')})`
+  );
+  let headerError = '';
+  try {
+    new CsvLoader().load({ relativePath: 'notes.csv', content: 'name,notes\nA,B' });
+  } catch (error) {
+    headerError = (error as Error).message;
+  }
+  check(headerError.startsWith('CSV header must include'), 'A CSV without a content column is rejected');
+
+  // MARKDOWN: front-matter fields, else the first heading as title, else the file name
+  const markdown = new MarkdownLoader();
+  const withFrontMatter = markdown.load({
+    relativePath: 'guides/sso.md',
+    content: '---\ntitle: "Single sign-on"\nid: doc_sso\ntags: [auth, "SSO"]\nupdated_at: 2024-05-01\npriority: 3\n---\n# Setup\nEnable SAML in the admin console.\n'
+  }).entries[0];
+  check(
+    withFrontMatter?.id === 'doc_sso' && withFrontMatter.title === 'Single sign-on' && withFrontMatter.priority === 3,
+    'Front-matter sets the id, title and priority'
+  );
+  check(withFrontMatter?.tags?.join() === 'auth,sso', `Front-matter lists become tags (got ${withFrontMatter?.tags?.join()})`);
+  check(withFrontMatter?.updatedAt === '2024-05-01T00:00:00.000Z', 'Front-matter dates are normalized to ISO timestamps');
+  check(withFrontMatter?.content === '# Setup\nEnable SAML in the admin console.', 'With a front-matter title, the heading stays in the content');
+  const withHeading = markdown.load({ relativePath: 'guides/Getting Started.md', content: '## First steps ##\nCreate a workspace.' }).entries[0];
+  check(
+    withHeading?.title === 'First steps' && withHeading.content === 'Create a workspace.' && withHeading.id === 'guides_getting_started',
+    'The first heading becomes the title and leaves the content'
+  );
+  const untitled = markdown.load({ relativePath: 'data-retention.md', content: 'Logs are kept for 30 days.' }).entries[0];
+  check(untitled?.title === 'Data Retention', 'Without a heading, the title comes from the file name');
+  check(markdown.load({ relativePath: 'empty.md', content: '---\ntitle: Empty\n---\n' }).errors.length === 1, 'A Markdown file without content is rejected');
+
+  // JSON: records are validated field by field, invalid ones skipped with their position
+  const json = new JsonLoader().load({
+    relativePath: 'kb.json',
+    content: JSON.stringify([
+      { id: 42, title: 'Numeric id', content: 'Ids may be numbers.', tags: ['A', 'b'] },
+      'not an object',
+      { title: 'No content' },
+      { title: 'Bad date', content: 'x', updatedAt: 'yesterday' },
+      { title: 'Bad tags', content: 'x', tags: [1, 2] },
+      { title: 'Bad id', content: 'x', id: { value: 1 } },
+      { title: 'Bad priority', content: 'x', priority: [1] }
+    ])
+  });
+  check(json.entries.length === 1 && json.entries[0].id === '42' && json.entries[0].tags?.join() === 'a,b', 'A numeric id is kept as text');
+  check(
+    json.errors.join('; ') === [
+      'entry 2: not an object',
+      'entry 3: missing required fields (title, content)',
+      'entry 4: invalid updatedAt "yesterday"',
+      'entry 5: invalid tags (expected a list of strings or "a, b")',
+      'entry 6: invalid id (expected a string or a number)',
+      'entry 7: invalid priority "[1]"'
+    ].join('; '),
+    `Invalid records are reported (got ${json.errors.join('; ')})`
+  );
+  let arrayError = '';
+  try {
+    new JsonLoader().load({ relativePath: 'kb.json', content: '{"title": "x"}' });
+  } catch (error) {
+    arrayError = (error as Error).message;
+  }
+  check(arrayError === 'Knowledge base must be an array', 'A JSON file that is not an array is rejected');
+
+  const jsonl = new JsonLinesLoader().load({
+    relativePath: 'kb.jsonl',
+    content: '{"title": "First", "content": "One."}\n\n{"title": "Broken",\n{"title": "Third", "content": "Three."}\n'
+  });
+  check(
+    jsonl.entries.map(e => e.id).join() === 'kb_1,kb_4' && jsonl.errors.join() === 'line 3: invalid JSON',
+    `JSONL lines are loaded independently (got ${jsonl.entries.map(e => e.id).join()}; ${jsonl.errors.join()})`
+  );
+
+  // REGISTRY: loaders by extension
+  const registry = KnowledgeLoaderRegistry.createDefault();
+  check(
+    registry.getLoader('a/B.MD')?.name === 'markdown' && registry.getLoader('faq.csv')?.name === 'csv' && registry.getLoader('x.ndjson')?.name === 'jsonl',
+    'Loaders are found by extension, case-insensitively'
+  );
+  check(registry.getLoader('slides.pdf') === undefined, 'Unsupported formats have no loader');
+  check(idFromPath('guides/Getting Started.md') === 'guides_getting_started', 'Ids from paths are stable');
+
+  // RELOAD: entries are diffed by id; a load without valid entries keeps the previous ones
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'knowledge-'));
+  const write = (name: string, content: string) => fs.writeFileSync(path.join(tempDir, name), content);
+  write('faq.json', JSON.stringify([
+    { id: 'doc_refunds', title: 'Refunds', content: 'Refunds take 14 days.' },
+    { id: 'doc_invoices', title: 'Invoices', content: 'Invoices are sent monthly.' }
+  ]));
+  write('sso.md', '# Single sign-on\nEnable SAML in the admin console.');
+  const knowledgeBase = new KnowledgeBaseService(tempDir);
+  const notified: KnowledgeDiff[] = [];
+  knowledgeBase.onReload(diff => notified.push(diff));
+  check(knowledgeBase.getAllEntries().map(e => e.id).join() === 'doc_refunds,doc_invoices,sso', 'Every file in the folder is loaded');
+
+  write('faq.json', JSON.stringify([
+    { id: 'doc_refunds', title: 'Refunds', content: 'Refunds take 30 days.' },
+    { id: 'doc_invoices', title: 'Invoices', content: 'Invoices are sent monthly.' }
+  ]));
+  fs.rmSync(path.join(tempDir, 'sso.md'));
+  write('api.txt', 'The API allows 100 requests per minute.');
+  const diff = knowledgeBase.reload();
+  check(
+    diff.added.join() === 'api' && diff.removed.join() === 'sso' && diff.changed.join() === 'doc_refunds',
+    `Reload reports added, removed and changed ids (got ${KnowledgeBaseService.formatDiff(diff)})`
+  );
+  check(KnowledgeBaseService.formatDiff(diff) === '+1 (api), -1 (sso), ~1 (doc_refunds)', 'The diff is summarized on one line');
+  check(notified.length === 1 && notified[0] === diff, 'Reload listeners receive the diff');
+  check(knowledgeBase.getEntryById('doc_refunds')?.content === 'Refunds take 30 days.', 'Changed entries are swapped in');
+  check(KnowledgeBaseService.formatDiff(knowledgeBase.reload()) === '+0, -0, ~0', 'Reloading unchanged files reports no difference');
+
+  fs.rmSync(path.join(tempDir, 'api.txt'));
+  write('faq.json', '[{"id": "doc_refunds", "title": "Refunds"');
+  const failed = knowledgeBase.reload();
+  check(failed.added.length + failed.removed.length + failed.changed.length === 0, 'A load without valid entries reports no difference');
+  check(
+    knowledgeBase.getAllEntries().map(e => e.id).join() === 'api,doc_refunds,doc_invoices' && knowledgeBase.getAllPassages().length === 3,
+    'The previous entries and passages are kept when the new load has no valid entries'
+  );
+  check(notified.length === 2, 'Listeners are not notified of a failed reload');
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  // CHUNKING: sentence-aligned chunks within the limit, each starting with the tail of the previous one
+  const short = TextChunker.split(SENTENCES[0], 40, 13);
+  check(short.length === 1 && short[0].text === SENTENCES[0], 'Text within the limit stays one chunk');
+
+  const chunks = TextChunker.split(LONG_TEXT, 40, 13);
+  check(chunks.length === 5, `10 sentences of 13 tokens, 3 per chunk with 1 overlapping → ${chunks.length} chunks (expected 5)`);
+  check(chunks.every(chunk => TokenCounter.countText(chunk.text) <= 40), 'Every chunk fits CHUNK_MAX_TOKENS');
+  check(chunks.every(chunk => LONG_TEXT.slice(chunk.start, chunk.end) === chunk.text), 'Offsets point at the chunk text');
+  check(
+    chunks.every(chunk => SENTENCES.some(s => chunk.text.startsWith(s)) && chunk.text.endsWith('.')),
+    'Chunks start and end on sentence boundaries'
+  );
+  check(
+    chunks.slice(1).every((chunk, i) => chunk.start < chunks[i].end && chunks[i].text.endsWith(LONG_TEXT.slice(chunk.start, chunks[i].end))),
+    'Each chunk starts with the last sentence of the previous one'
+  );
+  check(chunks[0].start === 0 && chunks[chunks.length - 1].end === LONG_TEXT.length, 'Chunks cover the whole text');
+
+  const noOverlap = TextChunker.split(LONG_TEXT, 40, 0);
+  check(noOverlap.slice(1).every((chunk, i) => chunk.start > noOverlap[i].end), 'Without overlap, chunks do not share text');
+
+  const oversized = TextChunker.split(`${'x'.repeat(200)}. ${SENTENCES[1]}`, 40, 13);
+  check(oversized.length === 2 && oversized[0].text.length === 201, 'A sentence over the limit forms a chunk of its own');
+
+  // MERGING: passages of one entry are rendered once, adjacent chunks stitched without repeating the overlap
+  const entry: KnowledgeEntry = { id: 'doc_billing', title: 'Billing', content: LONG_TEXT, tags: ['billing'], audience: 'admin', priority: 2 };
+  const passages = toPassages(entry, 40, 13);
+  const other: KnowledgeEntry = { id: 'doc_other', title: 'Other', content: 'Unrelated entry.' };
+  const contextManager = new ContextManager({ compressionStrategy: 'prune', allocator: null });
+  const context = await contextManager.buildContext([], [], [passages[3], other, passages[0], passages[1]], 'billing');
+
+  const merged = context.knowledgeEntries[0];
+  check(
+    context.knowledgeEntries.map(e => e.id).join(', ') === 'doc_billing, doc_other',
+    `Passages are grouped under their parent id, in retrieval order (got ${context.knowledgeEntries.map(e => e.id).join(', ')})`
+  );
+  const expected = LONG_TEXT.slice(passages[0].start, passages[1].end) + '\n[...]\n' + passages[3].content;
+  check(merged.content === expected, 'Chunks 0 and 1 are stitched without the repeated sentence, chunk 3 follows a gap marker');
+  check(
+    merged.title === 'Billing' && merged.tags?.join() === 'billing' && merged.audience === 'admin' && merged.priority === 2,
+    'The merged entry keeps the parent title and metadata'
+  );
+  check(!('parentId' in merged) && !('chunkIndex' in merged), 'Passage bookkeeping is dropped');
+  check(context.input.some(item => item.role === 'system' && item.content.includes('### [doc_billing] Billing')), 'The merged entry is cited by its parent id');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ KNOWLEDGE BASE TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ KNOWLEDGE BASE TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testKnowledge().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
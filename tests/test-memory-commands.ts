@@ -0,0 +1,150 @@
+/**
+ * Test script for the MEMORY COMMANDS
+ * Deterministic, no API key needed: "forget that ..." requests, looking memories up by description,
+ * /edit, /forget deleting only its target, confirming ambiguous matches, command names and category names
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { commandArgs, forgetMemory } from '../src/app.js';
+import { isMemoryCategory } from '../src/config.js';
+import { MemoryConsolidator } from '../src/services/memory-consolidation.js';
+import { MemoryService } from '../src/services/memory.js';
+import { MemoryEntry } from '../src/types/index.js';
+
+const FORGET_CASES: Array<[string, string | null]> = [
+  ['forget that I work in healthcare', 'I work in healthcare'],
+  ['Please forget about my old address.', 'my old address'],
+  ["Don't remember what I said about Lyon", 'Lyon'],
+  ['stop remembering that I live in Lyon!', 'I live in Lyon'],
+  ['Forget it', 'it'],
+  ['forget', null],
+  ['I always forget my password', null],
+  ['Can you forget that?', null]
+];
+
+async function testMemoryCommands() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING MEMORY COMMANDS');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+  const errorOf = (action: () => unknown) => {
+    try {
+      action();
+      return '';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+  const ids = (entries: MemoryEntry[]) => entries.map(entry => entry.id).join();
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-'));
+  const memoryPath = path.join(tempDir, 'memory');
+  const readFile = (id: string): MemoryEntry | null => {
+    const file = path.join(memoryPath, `${id}.json`);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+  };
+  const service = new MemoryService(memoryPath, new MemoryConsolidator(0.75, 0.5));
+
+  // FORGET REQUESTS: the text to look up, null for anything else
+  for (const [input, expected] of FORGET_CASES) {
+    const parsed = MemoryService.parseForgetRequest(input);
+    check(parsed === expected, `"${input}" → ${expected === null ? 'null' : `"${expected}"`}${parsed !== expected ? ` (got ${parsed})` : ''}`);
+  }
+
+  // FIND: active entries with at least half of the query keywords, best match first
+  const healthcare = service.saveMemory('user_info', 'The user works in healthcare');
+  const acme = service.saveMemory('user_info', 'The user works at Acme');
+  const darkMode = service.saveMemory('user_preference', 'The user prefers dark mode');
+  check(ids(service.findMemories('I work in healthcare')) === `${healthcare.id},${acme.id}`, 'Both "works" memories match, the closer one first');
+  check(ids(service.findMemories('dark mode please')) === darkMode.id, 'A description matches the entry with its keywords');
+  check(service.findMemories('the user').length === 0 && service.findMemories('Python').length === 0, 'Generic words or unknown keywords match nothing');
+
+  const berlin = service.saveMemory('user_info', 'The user lives in Berlin');
+  const paris = service.saveMemory('user_info', 'The user lives in Paris');
+  check(paris.supersedes?.join() === berlin.id, `"lives in Paris" supersedes "lives in Berlin"`);
+  check(service.findMemories('Berlin').length === 0 && ids(service.findMemories('Paris')) === paris.id, 'Superseded entries are not found');
+
+  // EDIT: new text saved to disk with a fresh date, the category kept
+  const oldDate = darkMode.date;
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const edited = service.updateMemory(darkMode.id, { content: '  The user prefers dark mode in every editor ' });
+  check(edited.content === 'The user prefers dark mode in every editor' && edited.category === 'user_preference', 'The text is replaced (trimmed), the category kept');
+  check(edited.date > oldDate && readFile(darkMode.id)?.content === edited.content, 'The date is refreshed and the file rewritten');
+  check(service.updateMemory(darkMode.id, { content: '   ' }).content === edited.content, 'Empty text leaves the memory unchanged');
+  check(service.getMemoryById(darkMode.id) !== darkMode && service.getMemoryById(darkMode.id)?.content === edited.content, 'The stored entry is replaced');
+  check(errorOf(() => service.updateMemory('mem_999', { content: 'x' })) === 'Unknown memory "mem_999" (see /memories)', 'An unknown id is refused');
+
+  // DELETE: only the target; the entries it superseded move to its successor
+  const rome = service.saveMemory('user_info', 'The user lives in Rome');
+  check(rome.supersedes?.join() === paris.id, '"lives in Rome" supersedes "lives in Paris"');
+  check(service.deleteMemory(paris.id) === paris && readFile(paris.id) === null && !service.getMemoryById(paris.id), 'The deleted entry and its file are gone');
+  check(service.getMemoryById(berlin.id)?.supersededBy === rome.id && readFile(berlin.id)?.supersededBy === rome.id, 'The entry it superseded is kept, superseded by its successor');
+  check(service.getMemoryById(rome.id)?.supersedes?.join() === berlin.id && readFile(rome.id)?.supersedes?.join() === berlin.id, 'The successor takes over its lineage');
+  check(service.formatAudit('user_info').includes(`      ↳ supersedes ${berlin.id}: The user lives in Berlin (${berlin.date.slice(0, 10)})`), 'The audit still shows the older entry');
+
+  // Forgetting the active entry does not bring back the one it superseded
+  service.deleteMemory(rome.id);
+  check(!service.getActiveMemories().some(m => m.id === berlin.id) && service.getMemoryById(berlin.id) !== undefined, 'The older claim stays superseded, on disk');
+  check(
+    service.formatAudit('user_info').some(line => line.startsWith(`   ${berlin.id} [user_info]`) && line.endsWith(`superseded by forgotten ${rome.id})`)),
+    'The audit lists it as superseded by a forgotten entry'
+  );
+  check(errorOf(() => service.deleteMemory(rome.id)) === `Unknown memory "${rome.id}" (see /memories)`, 'An unknown id is refused');
+
+  // Ids of forgotten entries are not reused after a restart
+  const reloaded = new MemoryService(memoryPath, new MemoryConsolidator(0.75, 0.5));
+  const next = reloaded.saveMemory('fact', 'The user noted that the deadline is March 3');
+  check(next.id > rome.id, `New ids come after the forgotten ones (got ${next.id})`);
+
+  // FORGET BY DESCRIPTION: one match is confirmed, several are listed to pick one, superseded entries included
+  const prompts: string[] = [];
+  const answering = (answer: string) => async (query: string) => {
+    prompts.push(query);
+    return answer;
+  };
+  check(await forgetMemory(reloaded, 'I work in healthcare', answering('')) === null, 'An empty choice keeps every match');
+  check(prompts[0] === 'Forget which one? (1-2, empty to keep them all) ' && reloaded.getMemoryById(acme.id) !== undefined, 'Two matches ask which one to forget');
+  check(await forgetMemory(reloaded, 'I work in healthcare', answering('3')) === null && reloaded.findMemories('healthcare').length === 1, 'A choice out of range keeps them');
+  const chosen = await forgetMemory(reloaded, 'I work in healthcare', answering('2'));
+  check(chosen?.id === acme.id && !reloaded.getMemoryById(acme.id) && reloaded.getMemoryById(healthcare.id) !== undefined, 'Only the chosen match is forgotten');
+  check(await forgetMemory(reloaded, 'works in healthcare', answering('n')) === null && reloaded.getMemoryById(healthcare.id) !== undefined, 'A single match is kept unless confirmed');
+  check(prompts[prompts.length - 1] === 'Forget this memory? (y/n) ', 'A single match asks for confirmation');
+  check(reloaded.findMemories('lives in Berlin').length === 0 && ids(reloaded.findMemories('lives in Berlin', true)) === berlin.id, 'Superseded entries are only found on request');
+  check((await forgetMemory(reloaded, 'I lived in Berlin', answering('y')))?.id === berlin.id && !reloaded.getMemoryById(berlin.id), 'A superseded entry can be forgotten by description');
+  prompts.length = 0;
+  check((await forgetMemory(reloaded, darkMode.id, answering('n')))?.id === darkMode.id && prompts.length === 0, 'An id is forgotten without a question');
+  check(await forgetMemory(reloaded, 'quantum physics', answering('y')) === null, 'A description without match forgets nothing');
+
+  // COMMANDS: the whole first word names the command
+  check(commandArgs('/forget mem_001', '/forget') === 'mem_001' && commandArgs('  /FORGET  the  old  address ', '/forget') === 'the old address', 'Arguments follow the command');
+  check(commandArgs('/memories', '/memories') === '' && commandArgs('/forget', '/forget') === '', 'A command without arguments has empty arguments');
+  check(commandArgs('/forgetful mem_001', '/forget') === null && commandArgs('/editor', '/edit') === null && commandArgs('forget that', '/forget') === null, 'Other words are not the command');
+
+  // CATEGORIES: only the configured names
+  check(isMemoryCategory('user_info') && isMemoryCategory('other'), 'Configured categories are accepted');
+  check(!isMemoryCategory('hobby') && !isMemoryCategory('User_Info') && !isMemoryCategory(''), 'Other names are refused');
+
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ MEMORY COMMANDS TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ MEMORY COMMANDS TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testMemoryCommands().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
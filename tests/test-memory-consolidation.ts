@@ -0,0 +1,108 @@
+/**
+ * Test script for MEMORY CONSOLIDATION
+ * Deterministic, no API key needed: which saves merge into an existing memory, which supersede it
+ * (opposite polarity, or another value for the same attribute) and which are simply added
+ */
+
+import { ConsolidationDecision, MemoryConsolidator } from '../src/services/memory-consolidation.js';
+import { MemoryEntry } from '../src/types/index.js';
+
+type Action = ConsolidationDecision['action'];
+
+// [category, existing memory, new memory, expected action]
+const PAIRS: Array<[string, string, string, Action]> = [
+  // Merge: the same fact said again
+  ['user_preference', 'The user prefers TypeScript over JavaScript', 'The user prefers TypeScript to JavaScript', 'merge'],
+  ['user_info', 'The user lives in Lyon', 'User lives in Lyon', 'merge'],
+  ['instruction', 'The assistant should always answer in French', 'Always answer in French', 'merge'],
+
+  // Supersede: opposite polarity
+  ['user_preference', 'The user likes long answers', "The user doesn't like long answers", 'supersede'],
+  ['user_preference', 'The user prefers dark mode', 'The user no longer prefers dark mode', 'supersede'],
+
+  // Supersede: the same attribute with another value
+  ['user_info', 'The user lives in Berlin', 'The user lives in Paris', 'supersede'],
+  ['user_info', 'The user works at Acme', 'The user works at Globex Corporation', 'supersede'],
+  ['user_info', "The user's name is Sarah", "The user's name is Sara Jones", 'supersede'],
+  ['fact', 'The user noted that the deadline is March 3', 'The user noted that the deadline is April 10', 'supersede'],
+  ['instruction', 'The assistant should always answer in French', 'The assistant should always answer in English', 'supersede'],
+
+  // Supersede: another choice for the same preference
+  ['user_preference', 'The user prefers tabs', 'The user prefers spaces', 'supersede'],
+  ['user_preference', 'The user prefers tabs for indentation', 'The user prefers spaces for indentation', 'supersede'],
+  ['user_preference', 'The user uses tabs', 'The user uses spaces', 'supersede'],
+  ['user_preference', 'The user prefers dark mode', 'The user prefers light mode', 'supersede'],
+  ['user_preference', 'The user prefers concise answers', 'The user prefers detailed answers', 'supersede'],
+  ['user_preference', 'The user likes short answers', 'The user likes long answers', 'supersede'],
+  ['decision', 'The user decided to use PostgreSQL', 'The user decided to use MySQL', 'supersede'],
+
+  // Add: related but compatible claims
+  ['user_info', 'The user works at Acme', 'The user works in healthcare', 'add'],
+  ['user_preference', 'The user likes Python', 'The user likes hiking', 'add'],
+  ['user_info', 'The user lives in Lyon', 'The user works in Lyon', 'add'],
+  ['user_preference', 'The user does not like long answers', 'The user does not like emojis', 'add'],
+  ['user_info', 'The user lives in Berlin', 'The user does not live in Paris', 'add'],
+  ['project_context', 'The project uses PostgreSQL', 'The project uses Redis for caching', 'add'],
+  ['user_info', 'The user is vegetarian', 'The user is a nurse', 'add'],
+  ['user_preference', 'The user prefers dark mode', 'The user prefers TypeScript', 'add'],
+  ['user_preference', 'The user prefers tabs for indentation', 'The user prefers spaces for alignment', 'add'],
+  ['user_preference', 'The user does not use tabs', 'The user does not use spaces', 'add']
+];
+
+const entry = (id: string, category: string, content: string, extra: Partial<MemoryEntry> = {}): MemoryEntry =>
+  ({ id, category, content, date: '2024-05-01T00:00:00.000Z', ...extra });
+
+async function testMemoryConsolidation() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING MEMORY CONSOLIDATION');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  // Default thresholds: duplicate 0.75, conflict 0.5
+  const consolidator = new MemoryConsolidator(0.75, 0.5);
+
+  // PAIRS: one stored memory, one new save
+  for (const [category, existing, content, expected] of PAIRS) {
+    const decision = consolidator.consolidate(category, content, [entry('mem_001', category, existing)]);
+    check(decision.action === expected, `"${content}" after "${existing}": ${expected}${decision.action !== expected ? ` (got ${decision.action})` : ''}`);
+  }
+
+  // GENERIC SUBJECTS: "user", "assistant" and "project" do not count as shared keywords
+  check(consolidator.similarity('The user likes Python', 'The user likes hiking') === 1 / 3, 'Only "like" is shared by "likes Python" and "likes hiking"');
+  check(MemoryConsolidator.terms("The users' project and the assistant").size === 0, 'Generic subjects are not terms');
+
+  // SCOPE: only active entries of the same category are compared, every contradicted one is superseded
+  const stored = [
+    entry('mem_001', 'user_info', 'The user lives in Berlin'),
+    entry('mem_002', 'user_info', 'The user lives in Hamburg', { supersededBy: 'mem_001' }),
+    entry('mem_003', 'fact', 'The user lives in Munich'),
+    entry('mem_004', 'user_info', 'The user lives in Berlin, Germany'),
+    entry('mem_005', 'user_info', 'The user works at Acme')
+  ];
+  const decision = consolidator.consolidate('user_info', 'The user lives in Paris', stored);
+  check(
+    decision.action === 'supersede' && decision.conflicts.map(conflict => conflict.entry.id).join() === 'mem_001,mem_004',
+    `Both active "lives in" entries of the category are superseded (got ${decision.action === 'supersede' ? decision.conflicts.map(c => c.entry.id).join(', ') : decision.action})`
+  );
+  check(consolidator.consolidate('user_info', 'The user lives in Munich', []).action === 'add', 'Without stored memories a save is added');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ MEMORY CONSOLIDATION TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ MEMORY CONSOLIDATION TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testMemoryConsolidation().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
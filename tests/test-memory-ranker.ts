@@ -0,0 +1,123 @@
+/**
+ * Test script for the MEMORY RANKER
+ * Deterministic, no API key needed: ranking order, recency half-life, category boost (none for unclassified queries),
+ * importance by category and from merged duplicates, and lexical vs n-gram relevance
+ */
+
+import { MemoryRanker, MemoryRankerOptions } from '../src/services/memory-ranker.js';
+import { RuleBasedMemoryExtractor } from '../src/services/rule-memory-extractor.js';
+import { MemoryEntry, RankedMemory } from '../src/types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T00:00:00.000Z');
+
+// Relevance 0.6, recency 0.2, importance 0.2, category boost 0.2, recency halves every 30 days
+const OPTIONS: MemoryRankerOptions = {
+  similarity: 'lexical',
+  minRelevance: 0.15,
+  relevanceWeight: 0.6,
+  recencyWeight: 0.2,
+  importanceWeight: 0.2,
+  categoryBoost: 0.2,
+  halfLifeDays: 30
+};
+
+const memory = (id: string, category: string, content: string, ageDays: number, extra: Partial<MemoryEntry> = {}): MemoryEntry =>
+  ({ id, category, content, date: new Date(NOW - ageDays * DAY_MS).toISOString(), ...extra });
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+const ids = (ranked: RankedMemory[]) => ranked.map(entry => entry.id).join();
+
+async function testMemoryRanker() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING MEMORY RANKER');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const ranker = new MemoryRanker(OPTIONS);
+  const scoreOf = (entry: MemoryEntry, query = 'billing invoices', categories: string[] = []) =>
+    ranker.rank(query, [entry], categories, NOW)[0]?.score;
+
+  // ORDER: relevance, recency and importance combined; unrelated memories are left out
+  const instruction = memory('mem_001', 'instruction', 'Always answer billing questions with the invoice number', 60);
+  const fact = memory('mem_002', 'fact', 'The billing export runs nightly', 0);
+  const preference = memory('mem_003', 'user_preference', 'The user prefers dark mode', 0);
+  const ranked = ranker.rank('billing invoices', [fact, preference, instruction], [], NOW);
+  check(ids(ranked) === 'mem_001,mem_002', `The old but fully relevant instruction comes first, unrelated memories are left out (got ${ids(ranked)})`);
+  check(
+    near(ranked[0].score.total, 0.85) && near(ranked[0].score.relevance, 0.6) && near(ranked[0].score.recency, 0.05) && near(ranked[0].score.importance, 0.2),
+    `0.85 = relevance 0.60 + recency 0.05 + importance 0.20 (got ${MemoryRanker.describe(ranked[0].score)})`
+  );
+  check(near(ranked[1].score.total, 0.6), `Half the query keywords, today, a fact: 0.30 + 0.20 + 0.10 (got ${MemoryRanker.describe(ranked[1].score)})`);
+  check(
+    MemoryRanker.describe(ranked[0].score) === '0.85 = relevance 0.60 + recency 0.05 + importance 0.20 + category 0.00',
+    'The DEBUG breakdown lists every component'
+  );
+
+  // RECENCY: halves every halfLifeDays
+  const recency = [0, 30, 60, 90].map(age => scoreOf(memory('mem_010', 'fact', 'Billing invoices', age))!.recency);
+  check(near(recency[0], 0.2) && near(recency[1], 0.1) && near(recency[2], 0.05) && near(recency[3], 0.025), `Recency 0.2 → 0.1 → 0.05 → 0.025 at 0 / 30 / 60 / 90 days (got ${recency.map(r => r.toFixed(3)).join(', ')})`);
+  const weekly = new MemoryRanker({ ...OPTIONS, halfLifeDays: 7 });
+  check(near(weekly.rank('billing', [memory('mem_011', 'fact', 'Billing', 7)], [], NOW)[0].score.recency, 0.1), 'The half-life is configurable');
+  check(near(scoreOf(memory('mem_012', 'fact', 'Billing invoices', -5))!.recency, 0.2), 'A date in the future counts as today');
+  check(scoreOf({ ...memory('mem_013', 'fact', 'Billing invoices', 0), date: 'not a date' })!.recency === 0, 'An invalid date gets no recency');
+
+  const timeless = new MemoryRanker({ ...OPTIONS, recencyWeight: 0 });
+  const sameScore = timeless.rank('billing', [memory('mem_014', 'fact', 'Billing', 10), memory('mem_015', 'fact', 'Billing', 5)], [], NOW);
+  check(ids(sameScore) === 'mem_015,mem_014', 'Equal scores put the more recent memory first');
+
+  // CATEGORY BOOST: classified categories are candidates without relevance, and rank higher
+  const boosted = ranker.rank('billing invoices', [fact, preference, instruction], ['user_preference'], NOW);
+  check(ids(boosted) === 'mem_001,mem_002,mem_003', `A memory of a classified category is kept without matching the query (got ${ids(boosted)})`);
+  const boost = boosted[2].score;
+  check(near(boost.categoryBoost, 0.2) && boost.relevance === 0, `It gets the category boost only (got ${MemoryRanker.describe(boost)})`);
+  const twins = [memory('mem_020', 'fact', 'Billing invoices', 0), memory('mem_021', 'decision', 'Billing invoices', 0, { importance: 0.5 })];
+  check(ids(ranker.rank('billing invoices', twins, ['decision'], NOW)) === 'mem_021,mem_020', 'The boost breaks the tie between equal memories');
+  check(ids(ranker.rank('billing invoices', twins, ['fact'], NOW)) === 'mem_020,mem_021', 'Whichever category the query was classified into');
+  const unclassified = await new RuleBasedMemoryExtractor().classifyQuery('Convert 3 miles to kilometers');
+  const convert = ranker.rank('Convert 3 miles to kilometers', [fact, preference, instruction], unclassified, NOW);
+  check(unclassified.length === 0 && convert.length === 0, `A query without category cues boosts nothing, so unrelated memories stay below minRelevance (got ${ids(convert)})`);
+
+  // IMPORTANCE: by category, overridden by the entry, raised by merged duplicates (up to 1)
+  const importance = (entry: MemoryEntry) => scoreOf(entry)!.importance / 0.2;
+  const merged = (count: number) => Array.from({ length: count }, (_, i) => ({ content: `Billing invoices ${i}`, date: fact.date }));
+  check(
+    near(importance(memory('mem_030', 'instruction', 'Billing invoices', 0)), 1) &&
+      near(importance(memory('mem_031', 'user_preference', 'Billing invoices', 0)), 0.8) &&
+      near(importance(memory('mem_032', 'other', 'Billing invoices', 0)), 0.3) &&
+      near(importance(memory('mem_033', 'custom', 'Billing invoices', 0)), 0.5),
+    'Importance by category: instruction 1.0, preference 0.8, other 0.3, unknown 0.5'
+  );
+  check(near(importance(memory('mem_034', 'other', 'Billing invoices', 0, { importance: 0.9 })), 0.9), "An entry's own importance wins");
+  check(near(importance(memory('mem_035', 'fact', 'Billing invoices', 0, { merged: merged(2) })), 0.7), 'Each merged duplicate adds 0.1 (fact 0.5 + 2 merges)');
+  check(near(importance(memory('mem_036', 'fact', 'Billing invoices', 0, { merged: merged(10) })), 1), 'Importance is capped at 1');
+  const repeated = ranker.rank('billing invoices', [memory('mem_037', 'fact', 'Billing invoices', 0), memory('mem_038', 'fact', 'Billing invoices', 1, { merged: merged(3) })], [], NOW);
+  check(ids(repeated) === 'mem_038,mem_037', 'A fact said several times outranks a slightly newer one said once');
+
+  // SIMILARITY: keyword overlap, or n-gram vectors that also match word parts
+  const billed = memory('mem_040', 'fact', 'Invoices are billed monthly', 0);
+  check(new MemoryRanker({ ...OPTIONS, minRelevance: 0 }).rank('billing', [billed], [], NOW)[0].score.relevance === 0, 'Lexical relevance needs the same keyword');
+  const ngram = new MemoryRanker({ ...OPTIONS, similarity: 'ngram', minRelevance: 0 }).rank('billing', [billed], [], NOW)[0];
+  check(ngram.score.relevance > 0, `N-gram relevance matches "billing" with "billed" (${ngram.score.relevance.toFixed(2)})`);
+  check(ranker.rank('the and of', [fact], [], NOW).length === 0, 'A query without keywords selects nothing but classified categories');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ MEMORY RANKER TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ MEMORY RANKER TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testMemoryRanker().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,160 @@
+/**
+ * Test script for the RULE-BASED MEMORY EXTRACTOR
+ * Deterministic, no API key needed: extraction and classification rules per category,
+ * batch extraction over a window of exchanges, the batch prompt and response parsing of the OpenAI extractor (stubbed client),
+ * and the automatic fallback when the OpenAI calls fail
+ */
+
+import OpenAI from 'openai';
+import { RuleBasedMemoryExtractor } from '../src/services/rule-memory-extractor.js';
+import { MemoryExtractionAgent, createMemoryExtractor } from '../src/services/memory-extraction.js';
+import { Message } from '../src/types/index.js';
+import { CONFIG } from '../src/config.js';
+
+const EXTRACTION_CASES: Array<{ user: string; expected: { category: string; content: string } | null }> = [
+  { user: 'My name is Sarah and I work in healthcare', expected: { category: 'user_info', content: "The user's name is Sarah" } },
+  { user: 'I work in healthcare.', expected: { category: 'user_info', content: 'The user works in healthcare' } },
+  { user: 'Sounds good, and I live in Lyon', expected: { category: 'user_info', content: 'The user lives in Lyon' } },
+  { user: 'I prefer TypeScript over JavaScript for all my projects', expected: { category: 'user_preference', content: 'The user prefers TypeScript over JavaScript for all their projects' } },
+  { user: "I don't like long answers", expected: { category: 'user_preference', content: 'The user does not like long answers' } },
+  { user: "Let's use React for the frontend", expected: { category: 'decision', content: 'The project will use React for the frontend' } },
+  { user: "I've decided to use PostgreSQL", expected: { category: 'decision', content: 'The user decided to use PostgreSQL' } },
+  { user: 'Always answer in French', expected: { category: 'instruction', content: 'The assistant should always answer in French' } },
+  { user: "We're building a billing dashboard for clinics", expected: { category: 'project_context', content: 'The user is working on a billing dashboard for clinics' } },
+  { user: 'Remember that the deadline is March 3', expected: { category: 'fact', content: 'The user noted that the deadline is March 3' } },
+  { user: 'Thanks! Do I prefer tabs?', expected: null },
+  { user: 'What is 2 + 2?', expected: null }
+];
+
+const CLASSIFICATION_CASES: Array<{ query: string; expected: string }> = [
+  { query: 'What are my language preferences?', expected: 'user_preference' },
+  { query: 'What tech stack did we decide on?', expected: 'decision' },
+  { query: 'Tell me about my project setup', expected: 'project_context' },
+  { query: "What's my name?", expected: 'user_info' }
+];
+
+// OpenAI client whose calls always fail (no network, no API key)
+function failingClient(): OpenAI {
+  const create = async () => {
+    throw new Error('Connection error');
+  };
+  return { chat: { completions: { create } } } as unknown as OpenAI;
+}
+
+// OpenAI client that answers every call with the same text and records the requests
+function stubClient(answer: string): { client: OpenAI; requests: Array<{ messages: Array<{ role: string; content: string }> }> } {
+  const requests: Array<{ messages: Array<{ role: string; content: string }> }> = [];
+  const create = async (request: { messages: Array<{ role: string; content: string }> }) => {
+    requests.push(request);
+    return { choices: [{ message: { content: answer } }] };
+  };
+  return { client: { chat: { completions: { create } } } as unknown as OpenAI, requests };
+}
+
+const message = (role: Message['role'], content: string): Message => ({ role, content, timestamp: 0 });
+
+async function testMemoryRules() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING RULE-BASED MEMORY EXTRACTOR');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, text: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${text}`);
+    passed = passed && condition;
+  };
+
+  const rules = new RuleBasedMemoryExtractor();
+  const reply = message('assistant', 'Noted!');
+
+  // EXTRACTION: one memory per matching statement, in third person
+  for (const { user, expected } of EXTRACTION_CASES) {
+    const extracted = await rules.extractMemory(message('user', user), reply);
+    const got = extracted ? `[${extracted.category}] ${extracted.content}` : 'nothing';
+    check(
+      JSON.stringify(extracted) === JSON.stringify(expected),
+      `"${user}" → ${got}`
+    );
+  }
+
+  // CLASSIFICATION: the expected category is selected (not every category)
+  for (const { query, expected } of CLASSIFICATION_CASES) {
+    const categories = await rules.classifyQuery(query);
+    check(categories.includes(expected) && categories.length <= 3, `"${query}" → ${categories.join(', ')}`);
+  }
+  const unrelated = await rules.classifyQuery('2 + 2');
+  check(unrelated.length === 0, 'A query without cues is classified into no category');
+
+  // BATCH: every statement of the window, each memory once
+  const window = [
+    message('user', "My name is Sarah and I work in healthcare. What's a good stack for a clinic app?"),
+    message('assistant', 'React with a Node.js backend is a common choice.'),
+    message('user', "Let's use React for the frontend. Always answer in French"),
+    message('assistant', "D'accord !"),
+    message('user', 'My name is Sarah')
+  ];
+  const batch = await rules.extractMemories(window);
+  check(
+    JSON.stringify(batch.map(memory => memory.category)) === JSON.stringify(['user_info', 'user_info', 'decision', 'instruction']),
+    `Batch window → ${batch.map(memory => `[${memory.category}] ${memory.content}`).join('; ')}`
+  );
+
+  // FALLBACK: failed API calls are answered by the rules
+  const agent = new MemoryExtractionAgent(failingClient());
+  const fallbackMemory = await agent.extractMemory(message('user', 'I prefer dark mode'), reply);
+  check(fallbackMemory?.content === 'The user prefers dark mode', 'Extraction falls back to the rules when the API fails');
+  const fallbackBatch = await agent.extractMemories(window);
+  check(JSON.stringify(fallbackBatch) === JSON.stringify(batch), 'Batch extraction falls back to the rules when the API fails');
+  const fallbackCategories = await agent.classifyQuery('What are my preferences?');
+  check(fallbackCategories[0] === 'user_preference', 'Classification falls back to the rules when the API fails');
+
+  // LLM BATCH: the window and the turn before it in the prompt, one memory per CATEGORY/CONTENT block
+  const stub = stubClient([
+    'CATEGORY: decision',
+    'CONTENT: The project will use React for the frontend',
+    '',
+    'CATEGORY: user_info',
+    "CONTENT: The user's name is Sarah",
+    '',
+    'CATEGORY: hobby',
+    'CONTENT: The user plays chess'
+  ].join('\n'));
+  const llm = new MemoryExtractionAgent(stub.client);
+  const context = [message('user', 'Should we use React or Vue for the frontend?'), message('assistant', 'React has the larger ecosystem.')];
+  const extracted = await llm.extractMemories([message('user', "Yes, let's go with that. I'm Sarah by the way"), message('assistant', 'Great, React it is.')], context);
+  check(
+    JSON.stringify(extracted) === JSON.stringify([
+      { category: 'decision', content: 'The project will use React for the frontend' },
+      { category: 'user_info', content: "The user's name is Sarah" },
+      { category: 'other', content: 'The user plays chess' }
+    ]),
+    `Every block is a memory, unknown categories become "other" (got ${extracted.map(memory => `[${memory.category}] ${memory.content}`).join('; ')})`
+  );
+  const [systemPrompt, userPrompt] = stub.requests[0]?.messages.map(m => m.content) ?? [];
+  check(stub.requests.length === 1 && CONFIG.MEMORY_CATEGORIES.every(category => systemPrompt.includes(`- ${category}`)), 'One call, the categories listed in the system prompt');
+  check(
+    userPrompt.startsWith('EARLIER CONTEXT (already analyzed):\nUser: Should we use React or Vue for the frontend?\nAssistant: React has the larger ecosystem.\n\n') &&
+      userPrompt.includes("Analyze this conversation:\n\nUser: Yes, let's go with that. I'm Sarah by the way\nAssistant: Great, React it is."),
+    'The previous turn is sent as context before the batch window'
+  );
+  const withoutContext = stubClient('NONE');
+  check((await new MemoryExtractionAgent(withoutContext.client).extractMemories(window)).length === 0, '"NONE" extracts nothing');
+  check(withoutContext.requests[0]?.messages[1].content.startsWith('Analyze this conversation:'), 'Without a previous turn there is no context section');
+
+  check(createMemoryExtractor('rules') instanceof RuleBasedMemoryExtractor, 'MEMORY_EXTRACTOR=rules selects the offline extractor');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ MEMORY RULES TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ MEMORY RULES TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testMemoryRules().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Test script for QUERY REWRITING
+ * Deterministic, no API key needed: follow-up detection, the rules-based keyword carryover
+ * for pronoun and elliptical follow-ups, and paraphrase expansion
+ */
+
+import { QueryRewriter } from '../src/services/query-rewriter.js';
+import { Message } from '../src/types/index.js';
+
+const message = (role: Message['role'], content: string, timestamp: number): Message => ({ role, content, timestamp });
+
+async function testQueryRewrite() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING QUERY REWRITING');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const rewriter = new QueryRewriter('rules');
+
+  // FOLLOW-UP DETECTION: pronouns, "and/what about" openers, or too few keywords
+  check(rewriter.isFollowUp('How do I schedule it weekly?'), 'A pronoun marks a follow-up');
+  check(rewriter.isFollowUp('What about annual billing plans for enterprise?'), 'A "what about" opener marks a follow-up');
+  check(rewriter.isFollowUp('Teams?'), 'A query with fewer than three keywords is elliptical');
+  check(!rewriter.isFollowUp('How do I reset my password on the login page?'), 'A standalone question is not a follow-up');
+
+  // PRONOUN: "it" is resolved by carrying the keywords of the previous question
+  const exportTurn = [
+    message('user', 'Can I export invoices to CSV format from the billing dashboard?', 1),
+    message('assistant', 'Yes, open Reports and choose Download.', 2)
+  ];
+  const pronoun = await rewriter.rewrite('How do I schedule it weekly?', exportTurn);
+  check(
+    pronoun.rewritten === 'How do I schedule it weekly? export invoices csv format billing dashboard',
+    `Pronoun follow-up gets the previous topic (got "${pronoun.rewritten}")`
+  );
+  check(pronoun.mode === 'rules' && pronoun.original === 'How do I schedule it weekly?', 'The original query is kept alongside the rewrite');
+  check(!pronoun.carriedTerms.includes('reports'), 'Assistant turns are not carried over');
+
+  // ELLIPSIS: "and for teams?" borrows the subject of the previous question, without repeating its own keywords
+  const pricingTurn = [
+    message('user', 'What does the enterprise pricing plan include?', 1),
+    message('assistant', 'Enterprise includes SSO and audit logs.', 2)
+  ];
+  const ellipsis = await rewriter.rewrite('And the pricing for teams?', pricingTurn);
+  check(
+    ['enterprise', 'pricing', 'plan', 'include'].every(term => ellipsis.rewritten.includes(term)) && ellipsis.rewritten.startsWith('And the pricing for teams?'),
+    `Elliptical follow-up is completed with the earlier keywords (got "${ellipsis.rewritten}")`
+  );
+  check(!ellipsis.carriedTerms.includes('pricing'), 'Keywords already in the query are not carried again');
+
+  // HISTORY IN ORDER: recent and repeated terms first, only the last QUERY_REWRITE_HISTORY_TURNS user turns, at most six terms
+  const history = [
+    message('user', 'Tell me about webhooks retries', 1),
+    message('user', 'Refund rules for SAML accounts', 2),
+    message('user', 'Refund timing for annual plans', 3)
+  ];
+  const ranked = await rewriter.rewrite('what about those?', history);
+  check(ranked.carriedTerms[0] === 'refund', `A term from both turns ranks first (got ${ranked.carriedTerms.join(', ')})`);
+  check(ranked.carriedTerms.slice(1, 4).join() === 'timing,annual,plans', 'Terms of the most recent turn come next');
+  check(ranked.carriedTerms.length === 6 && !ranked.carriedTerms.includes('webhooks'), 'Older turns and extra terms are left out');
+
+  // UNCHANGED: standalone queries, no history, history ending with the query itself, disabled mode
+  const standalone = await rewriter.rewrite('How do I reset my password on the login page?', exportTurn);
+  check(standalone.rewritten === standalone.original && standalone.carriedTerms.length === 0, 'A standalone query is not rewritten');
+  check((await rewriter.rewrite('And for teams?', [])).rewritten === 'And for teams?', 'A first message is not rewritten');
+  const withQuery = await rewriter.rewrite('How do I schedule it weekly?', [...exportTurn, message('user', 'How do I schedule it weekly?', 3)]);
+  check(withQuery.rewritten === pronoun.rewritten, 'A history that already ends with the query gives the same rewrite');
+  const disabled = await new QueryRewriter('disabled').rewrite('How do I schedule it weekly?', exportTurn);
+  check(disabled.rewritten === disabled.original && disabled.mode === 'disabled', 'Disabled mode leaves the query as is');
+
+  // PARAPHRASES: everyday phrasings get the knowledge base words, standalone or after a follow-up rewrite
+  const moneyBack = await rewriter.rewrite('How do I get my money back?', []);
+  check(
+    moneyBack.rewritten === 'How do I get my money back? refund billing payment' && moneyBack.expandedTerms.join() === 'refund,billing,payment',
+    `"money back" searches for refunds (got "${moneyBack.rewritten}")`
+  );
+  const onPhone = await rewriter.rewrite('Can I cancel it from my phone?', exportTurn);
+  check(
+    onPhone.carriedTerms.length > 0 && onPhone.expandedTerms.join() === 'subscription,plans,mobile' && onPhone.rewritten.endsWith('subscription plans mobile'),
+    `Expansion follows the keyword carryover (got "${onPhone.rewritten}")`
+  );
+  check((await rewriter.rewrite('How much is the refund billing?', [])).expandedTerms.join() === 'pricing', 'Words already in the query are not added again');
+  check(standalone.expandedTerms.length === 0 && disabled.expandedTerms.length === 0, 'Queries without paraphrases and disabled mode are not expanded');
+  check((await new QueryRewriter('disabled').rewrite('How do I get my money back?', [])).rewritten === 'How do I get my money back?', 'Disabled mode does not expand either');
+
+  // LLM FALLBACK: without credentials the model call fails and the rules rewrite is used
+  const apiKey = process.env.OPENAI_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+  const fallback = await new QueryRewriter('llm').rewrite('How do I schedule it weekly?', exportTurn);
+  if (apiKey !== undefined) {
+    process.env.OPENAI_API_KEY = apiKey;
+  }
+  check(fallback.mode === 'rules' && fallback.rewritten === pronoun.rewritten, 'LLM mode falls back to the rules rewrite when the call fails');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ QUERY REWRITING TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ QUERY REWRITING TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testQueryRewrite().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
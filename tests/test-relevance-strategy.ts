@@ -0,0 +1,90 @@
+/**
+ * Test script for the RELEVANCE compression strategy
+ * Deterministic, no API key needed: exchanges matching the query are kept alongside the most recent ones
+ */
+
+import { RelevanceStrategy } from '../src/services/compression-strategies.js';
+import { Message } from '../src/types/index.js';
+
+// Six user/assistant exchanges on different topics, oldest first
+const EXCHANGES: Array<[string, string]> = [
+  ['How do I reset my password?', 'Use the link on the login page.'],
+  ['How long do refunds take?', 'Refunds take 14 days.'],
+  ['Can I export invoices?', 'Yes, as CSV files.'],
+  ['Is single sign-on supported?', 'Yes, with SAML.'],
+  ['What is the API rate limit?', 'It allows 100 requests per minute.'],
+  ['Where do I change my email address?', 'In the account settings.']
+];
+
+const HISTORY: Message[] = EXCHANGES.flatMap(([question, answer], i) => [
+  { role: 'user' as const, content: question, timestamp: i * 2 },
+  { role: 'assistant' as const, content: answer, timestamp: i * 2 + 1 }
+]);
+
+// Every message costs 10 tokens, so each exchange costs 20
+const countMessage = () => 10;
+
+async function testRelevanceStrategy() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING RELEVANCE STRATEGY');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const strategy = new RelevanceStrategy();
+  // Indexes of the kept exchanges, from the kept user messages
+  const keptExchanges = (messages: Message[]) =>
+    messages.filter(message => message.role === 'user').map(message => message.timestamp / 2).join(', ');
+  const compress = (budget: number, query: string) => strategy.compress({ messages: HISTORY, budget, query, countMessage });
+
+  // RELEVANT AND RECENT: the latest exchange, then the matching one, then the most recent others
+  const result = await compress(60, 'refunds');
+  check(keptExchanges(result.messages) === '1, 4, 5', `Refund exchange kept with the two latest (got ${keptExchanges(result.messages)})`);
+  check(result.tokens === 60 && result.messages.length === 6, 'The result fills the budget exactly');
+  check(
+    result.messages.every((message, i) => i === 0 || message.timestamp > result.messages[i - 1].timestamp) &&
+      result.messages.every((message, i) => message.role === 'assistant' || result.messages[i + 1]?.timestamp === message.timestamp + 1),
+    'Questions and answers are kept together, in chronological order'
+  );
+  check(result.metadata.notes[0] === 'Relevance: kept 3/6 exchanges (1 matching the query)', 'The DEBUG note counts kept and matching exchanges');
+
+  const pruned = await compress(60, 'weather forecast');
+  check(keptExchanges(pruned.messages) === '3, 4, 5', 'Without a match, the most recent exchanges are kept (like pruning)');
+
+  const twoMatches = await compress(60, 'export invoices password');
+  check(keptExchanges(twoMatches.messages) === '0, 2, 5', `Two matching exchanges displace the recent ones (got ${keptExchanges(twoMatches.messages)})`);
+
+  // LATEST EXCHANGE: always kept, even when nothing else fits
+  check(keptExchanges((await compress(30, 'refunds')).messages) === '5', 'A budget for one exchange keeps the latest, not the match');
+  check(keptExchanges((await compress(10, 'refunds')).messages) === '5', 'The latest exchange is kept even over the budget');
+
+  // SUMMARIES: a summary message stands alone and competes like any exchange
+  const summary: Message = { role: 'system', content: 'Earlier: the user asked about refunds for annual plans.', timestamp: -1 };
+  const withSummary = await strategy.compress({ messages: [summary, ...HISTORY], budget: 50, query: 'refunds', countMessage });
+  check(
+    withSummary.messages[0] === summary && keptExchanges(withSummary.messages) === '1, 5',
+    'A matching summary is kept on its own, ahead of the exchanges'
+  );
+
+  const empty = await strategy.compress({ messages: [], budget: 60, query: 'refunds', countMessage });
+  check(empty.messages.length === 0 && empty.tokens === 0, 'An empty history stays empty');
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ RELEVANCE STRATEGY TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ RELEVANCE STRATEGY TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testRelevanceStrategy().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
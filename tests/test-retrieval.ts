@@ -0,0 +1,202 @@
+/**
+ * Test script for KNOWLEDGE RETRIEVAL
+ * Deterministic, no API key needed: BM25F scores and field weights over a small corpus,
+ * the minimum score threshold and index rebuilds, metadata filters and priorities,
+ * n-gram vectors, paraphrases expanded by the query rewriter and hybrid rank fusion
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Bm25Index, IndexedDocument } from '../src/utils/bm25-index.js';
+import { RetrievalService } from '../src/services/retrieval.js';
+import { QueryRewriter } from '../src/services/query-rewriter.js';
+import { ContextManager } from '../src/services/context-manager.js';
+import { CONFIG } from '../src/config.js';
+import { TokenCounter } from '../src/utils/token-counter.js';
+import { HeuristicTokenizer } from '../src/utils/tokenizer.js';
+import { KnowledgeEntry, KnowledgePassage } from '../src/types/index.js';
+
+const CORPUS: KnowledgeEntry[] = [
+  { id: 'doc_refunds', title: 'Refund policy', content: 'Refunds are issued within 14 days of purchase to the original payment method.' },
+  { id: 'doc_billing', title: 'Billing and invoices', content: 'Invoices are generated monthly. A refund request is reviewed by the billing team.' },
+  { id: 'doc_security', title: 'Security', content: 'Customer data is encrypted at rest and in transit.' },
+  { id: 'doc_sso', title: 'Single sign-on', content: 'Admins can enable SAML single sign-on for the whole workspace.' },
+  { id: 'doc_export', title: 'Data export', content: 'Reports can be exported as CSV or PDF from the dashboard.' },
+  { id: 'doc_api', title: 'API rate limits', content: 'The public API allows 100 requests per minute per token.' }
+];
+
+const documents = (entries: KnowledgeEntry[]): IndexedDocument[] =>
+  entries.map(entry => ({ id: entry.id, fields: { title: entry.title, content: entry.content } }));
+
+// Whole entries as single passages, as the knowledge base does for short entries
+const passages = (entries: KnowledgeEntry[]): KnowledgePassage[] =>
+  entries.map(entry => ({ ...entry, parentId: entry.id, chunkIndex: 0, chunkCount: 1, start: 0, end: entry.content.length }));
+
+async function testRetrieval() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING KNOWLEDGE RETRIEVAL');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+  const ids = (matches: Array<{ id: string }>) => matches.map(match => match.id).join(', ');
+
+  // BM25F SCORE: "refund" is in doc_refunds' title and doc_billing's content (df = 2 of N = 6)
+  const index = new Bm25Index(documents(CORPUS), { fieldWeights: { title: 3, content: 1 } });
+  const matches = index.search('refund');
+  // idf = ln(1 + (6 - 2 + 0.5) / (2 + 0.5)); title length 2 = average title length, so no length normalization;
+  // tf = title weight 3 × frequency 1; score = idf × tf / (k1 + tf)
+  const idf = Math.log(1 + 4.5 / 2.5);
+  const tf = 3;
+  const expected = idf * tf / (1.2 + tf);
+  check(ids(matches) === 'doc_refunds, doc_billing', `"refund" matches the title before the content (got ${ids(matches)})`);
+  check(Math.abs(matches[0].score - expected) < 1e-9, `doc_refunds scores ${matches[0].score.toFixed(6)} (expected ${expected.toFixed(6)})`);
+  check(index.search('warranty').length === 0, 'A query without indexed terms matches nothing');
+  check(index.search('the and of').length === 0, 'Stop words are not indexed');
+
+  // FIELD WEIGHTS: without the title weight the content match wins
+  const contentOnly = new Bm25Index(documents(CORPUS), { fieldWeights: { title: 0, content: 1 } });
+  check(contentOnly.search('refund')[0].id === 'doc_billing', 'Content-only weights rank the content match first');
+
+  // IDF: a term found in one document outweighs a term found in two
+  const refund = index.search('refund').find(match => match.id === 'doc_billing')!.score;
+  const invoices = index.search('invoices').find(match => match.id === 'doc_billing')!.score;
+  check(invoices > refund, `Rare title term outweighs a shared content term (${invoices.toFixed(2)} > ${refund.toFixed(2)})`);
+  check(ids(index.search('encrypted data')) === 'doc_security, doc_export', 'Matching more query terms ranks higher');
+
+  // THRESHOLD: keyword retrieval drops weak matches (RETRIEVAL_MIN_SCORE)
+  const retrieval = new RetrievalService(passages(CORPUS), { mode: 'keyword' });
+  check(ids(retrieval.retrieve('refund policy')) === 'doc_refunds', 'Only the strong title match passes the minimum score');
+  check(retrieval.retrieve('customer').length === 0, 'A single content match is below the minimum score');
+  check(retrieval.retrieve('   ').length === 0, 'An empty query retrieves nothing');
+  check(ids(retrieval.retrieve('refund policy data export', 1)) === 'doc_refunds', 'Results are cut to top K');
+
+  // REBUILD: the index follows the knowledge base
+  retrieval.rebuild(passages([
+    ...CORPUS.filter(entry => entry.id !== 'doc_refunds'),
+    { id: 'doc_warranty', title: 'Warranty and refund policy', content: 'Hardware is covered for two years.' }
+  ]));
+  check(ids(retrieval.retrieve('refund policy')) === 'doc_warranty', 'Rebuilt index drops removed entries and finds added ones');
+
+  // FILTER SYNTAX: key=value pairs, case-insensitive keys, dates normalized to ISO
+  const filter = RetrievalService.parseFilter('TAG=Billing,Invoices audience=Admin source=billing/ updatedAfter=2024-01-01');
+  check(
+    filter.tags?.join() === 'billing,invoices' && filter.audience === 'admin' && filter.source === 'billing/' &&
+      filter.updatedAfter === '2024-01-01T00:00:00.000Z',
+    'parseFilter reads tags, audience, source and dates'
+  );
+  check(
+    RetrievalService.formatFilter(filter) === 'tags=billing,invoices audience=admin source=billing/ updatedAfter=2024-01-01',
+    'formatFilter prints the filter in the same syntax'
+  );
+  check(RetrievalService.formatFilter(RetrievalService.parseFilter('  ')) === 'none', 'An empty filter matches everything');
+  const filterError = (text: string) => {
+    try {
+      RetrievalService.parseFilter(text);
+      return '';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+  check(filterError('tags=') === 'Missing value for "tags"', 'A key without a value is rejected');
+  check(filterError('updatedBefore=someday') === 'Invalid date "someday"', 'An invalid date is rejected');
+  check(filterError('owner=me').startsWith('Unknown filter "owner"'), 'An unknown key is rejected');
+
+  // FILTER MATCHING: any tag, shared entries without audience, source prefix, exclusive date bounds
+  const billingEntry: KnowledgeEntry = {
+    id: 'doc_billing', title: 'Billing', content: 'x', tags: ['billing'], source: 'billing/faq.json', updatedAt: '2024-03-01T00:00:00.000Z'
+  };
+  check(RetrievalService.matchesFilter(billingEntry, { tags: ['security', 'billing'] }), 'Any listed tag matches');
+  check(!RetrievalService.matchesFilter(billingEntry, { tags: ['security'] }), 'Entries without a listed tag are excluded');
+  check(RetrievalService.matchesFilter(billingEntry, { audience: 'admin' }), 'Entries without an audience are shared');
+  check(!RetrievalService.matchesFilter({ ...billingEntry, audience: 'developer' }, { audience: 'admin' }), 'Entries for another audience are excluded');
+  check(!RetrievalService.matchesFilter(billingEntry, { source: 'security/' }), 'Source is matched as a prefix');
+  check(
+    RetrievalService.matchesFilter(billingEntry, { updatedAfter: '2024-01-01T00:00:00.000Z', updatedBefore: '2024-06-01T00:00:00.000Z' }) &&
+      !RetrievalService.matchesFilter(billingEntry, { updatedAfter: billingEntry.updatedAt }) &&
+      !RetrievalService.matchesFilter({ ...billingEntry, updatedAt: undefined }, { updatedBefore: '2024-06-01T00:00:00.000Z' }),
+    'Date bounds are exclusive and exclude undated entries'
+  );
+
+  // FILTER BEFORE TOP K: an excluded better match does not use up the only result slot
+  const tagged = new RetrievalService(passages(CORPUS.map(entry => ({ ...entry, tags: entry.id === 'doc_billing' ? ['billing'] : ['policy'] }))), { mode: 'keyword' });
+  const unfiltered = tagged.retrieve('refund policy invoices', CORPUS.length);
+  check(ids(unfiltered) === 'doc_refunds, doc_billing', `Without a filter the refund policy ranks first (got ${ids(unfiltered)})`);
+  check(ids(tagged.retrieve('refund policy invoices', 1, { tags: ['billing'] })) === 'doc_billing', 'The filter applies before the top K cut');
+
+  // PRIORITY: only decides what is kept when the knowledge budget is tight; the rest stays in retrieval order
+  TokenCounter.setTokenizer(new HeuristicTokenizer());
+  const knowledgeBudget = Math.floor(CONFIG.MAX_TOKENS * CONFIG.BUDGET_KNOWLEDGE_PCT / 100);
+  // Three blocks of about 40% of the budget: two fit, three do not
+  const sized = (id: string, priority?: number): KnowledgeEntry =>
+    ({ id, title: id, content: `${id} billing detail. `.repeat(Math.ceil(knowledgeBudget * 1.6 / `${id} billing detail. `.length)).trim(), priority });
+  const contextManager = new ContextManager({ compressionStrategy: 'prune', allocator: null });
+  const selectedIds = async (entries: KnowledgeEntry[]) =>
+    ids((await contextManager.buildContext([], [], entries, 'billing')).knowledgeEntries);
+  check(await selectedIds([sized('doc_a'), sized('doc_b')]) === 'doc_a, doc_b', 'Entries within the budget are all kept');
+  check(await selectedIds([sized('doc_a'), sized('doc_b'), sized('doc_c')]) === 'doc_a, doc_b', 'Over budget, retrieval order decides by default');
+  check(
+    await selectedIds([sized('doc_a'), sized('doc_b'), sized('doc_c', 5)]) === 'doc_a, doc_c',
+    'Over budget, a higher-priority entry is kept first and rendered in retrieval order'
+  );
+  check(
+    await selectedIds([{ id: 'doc_low', title: 'Low', content: 'Short.' }, { id: 'doc_high', title: 'High', content: 'Short.', priority: 9 }]) === 'doc_low, doc_high',
+    'Within the budget, priority does not reorder entries'
+  );
+
+  // N-GRAM: word parts match spelling variants the keyword index misses, but not paraphrases until the rewriter expands them
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retrieval-'));
+  const vectorIndexPath = path.join(tempDir, 'knowledge.vectors.json');
+  const keyword = new RetrievalService(passages(CORPUS), { mode: 'keyword' });
+  const ngram = new RetrievalService(passages(CORPUS), { mode: 'ngram', vectorIndexPath });
+  check(keyword.retrieve('billed invoice').length === 0, 'Keyword mode misses "billed invoice"');
+  check(ids(ngram.retrieve('billed invoice')) === 'doc_billing', 'N-gram mode matches "billed invoice" to billing and invoices');
+  check(ngram.retrieve('how do I get my money back').length === 0, 'N-gram mode does not match a paraphrase without shared words');
+  const paraphrase = await new QueryRewriter('rules').rewrite('how do I get my money back', []);
+  check(ids(ngram.retrieve(paraphrase.rewritten, 1)) === 'doc_billing', `Expanded with "${paraphrase.expandedTerms.join(' ')}", it finds the refund request entry`);
+  const demo: KnowledgeEntry[] = JSON.parse(fs.readFileSync('data/tellia_assessment_demo.json', 'utf-8'));
+  for (const mode of ['keyword', 'ngram', 'hybrid'] as const) {
+    const demoRetrieval = new RetrievalService(passages(demo), { mode, vectorIndexPath: path.join(tempDir, 'demo.vectors.json') });
+    const found = ids(demoRetrieval.retrieve(paraphrase.rewritten, 1));
+    check(found === 'doc_5', `${mode}: the expanded paraphrase finds "Billing and Subscriptions" in the demo knowledge (got ${found || 'nothing'})`);
+  }
+
+  const stored = JSON.parse(fs.readFileSync(vectorIndexPath, 'utf-8'));
+  check(
+    Object.keys(stored.vectors).length === CORPUS.length && stored.model.startsWith('hashed-ngram'),
+    `Vectors are persisted with their model id (${stored.model})`
+  );
+
+  // HYBRID: reciprocal rank fusion, score = Σ 1 / (60 + rank) over both rankings
+  const query = 'billing purchase refund';
+  const keywordRanking = keyword.retrieve(query, CORPUS.length);
+  const ngramRanking = ngram.retrieve(query, CORPUS.length);
+  const hybrid = new RetrievalService(passages(CORPUS), { mode: 'hybrid', vectorIndexPath });
+  check(
+    ids(keywordRanking) === 'doc_billing' && ids(ngramRanking) === 'doc_refunds, doc_billing',
+    `Rankings disagree: keyword ${ids(keywordRanking)}; n-gram ${ids(ngramRanking)}`
+  );
+  // doc_billing: 1/61 + 1/62 beats doc_refunds: 1/61, although the n-gram ranking puts doc_refunds first
+  check(ids(hybrid.retrieve(query, CORPUS.length)) === 'doc_billing, doc_refunds', 'Entries ranked by both lists come first');
+  check(ids(hybrid.retrieve('billed invoice')) === 'doc_billing', 'Hybrid mode keeps matches found by one ranking only');
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ RETRIEVAL TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ RETRIEVAL TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testRetrieval().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,186 @@
+/**
+ * Test script for the summary tiers
+ * Verifies that evicted messages are summarized once per eviction batch, never re-summarized,
+ * that old segments fold into a long-range summary, and that the checkpoint restores the same context
+ */
+
+import { SummarizeStrategy } from '../src/services/compression-strategies.js';
+import { ContextManager } from '../src/services/context-manager.js';
+import { Summarizer } from '../src/services/summarization.js';
+import { Message } from '../src/types/index.js';
+
+// Offline summarizer that records every call
+class FakeSummarizer implements Summarizer {
+  calls: Message[][] = [];
+
+  async summarizeMessages(messages: Message[]): Promise<Message> {
+    this.calls.push(messages);
+    return {
+      role: 'system',
+      content: `[Previous conversation summary: summary #${this.calls.length} of ${messages.length} messages]`,
+      timestamp: Date.now()
+    };
+  }
+
+  shouldSummarize(messagesToSummarize: number, currentTokens: number): boolean {
+    return messagesToSummarize >= 4 && currentTokens > 100;
+  }
+}
+
+const TURNS = 80;
+
+function makeTurn(i: number): Message[] {
+  const topic = ['billing', 'invoices', 'refunds', 'accounts', 'security', 'integrations'][i % 6];
+  return [
+    { role: 'user', content: `Question ${i}: can you explain how ${topic} work for our team plan?`, timestamp: 1000 + i * 10 },
+    {
+      role: 'assistant',
+      content: `Answer ${i}: ${topic} are handled from the dashboard. Admins can review every change, export a report, ` +
+        `and contact support if something looks wrong. Changes apply from the next billing cycle.`,
+      timestamp: 1000 + i * 10 + 5
+    }
+  ];
+}
+
+async function testRollingSummary() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING ROLLING SUMMARY TIERS');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const summarizer = new FakeSummarizer();
+  // Fixed section shares: the conversation budget (and so each tier share) is the same on every turn
+  const contextManager = new ContextManager({ summarizer, compressionStrategy: 'summarize', allocator: null });
+
+  const history: Message[] = [];
+  let overflowTurns = 0;
+  let lastQuery = '';
+
+  for (let i = 0; i < TURNS; i++) {
+    const [question, answer] = makeTurn(i);
+    history.push(question);
+    lastQuery = question.content;
+
+    const callsBefore = summarizer.calls.length;
+    const context = await contextManager.buildContext(history, [], [], question.content);
+    if (context.conversationHistory.some(m => m.role === 'system')) {
+      overflowTurns++;
+    }
+
+    // At most a segment summary plus a long-range fold per turn
+    if (summarizer.calls.length > callsBefore + 2) {
+      check(false, `Turn ${i}: ${summarizer.calls.length - callsBefore} summarization calls in one turn`);
+    }
+
+    history.push(answer);
+  }
+
+  console.log(`📊 ${TURNS} turns, ${overflowTurns} turns with a summary in context, ${summarizer.calls.length} summarization calls`);
+
+  // Segment calls summarize conversation messages, fold calls summarize older summaries
+  const segmentCalls = summarizer.calls.filter(batch => batch.every(m => m.role !== 'system'));
+  const foldCalls = summarizer.calls.filter(batch => batch.every(m => m.role === 'system'));
+  console.log(`📊 ${segmentCalls.length} segment summaries, ${foldCalls.length} long-range folds\n`);
+
+  // TEST 1: Summarization happens in batches, not on every overflowing turn
+  check(segmentCalls.length > 0, 'History overflowed and was summarized');
+  check(segmentCalls.length + foldCalls.length === summarizer.calls.length, 'Every call is either a segment or a long-range fold');
+  check(
+    segmentCalls.length * 2 <= overflowTurns,
+    `One call per eviction batch (${segmentCalls.length} segment calls for ${overflowTurns} summarized turns)`
+  );
+
+  // TEST 2: Each message is summarized once; folds only re-summarize summaries
+  const summarizedTimestamps = new Set<number>();
+  let duplicates = 0;
+  for (const batch of segmentCalls) {
+    for (const message of batch) {
+      if (summarizedTimestamps.has(message.timestamp)) {
+        duplicates++;
+      }
+      summarizedTimestamps.add(message.timestamp);
+    }
+  }
+  check(duplicates === 0, 'No message was summarized twice');
+
+  // TEST 3: The checkpoint covers exactly the summarized messages, split across the tiers
+  const state = contextManager.exportSummaryState();
+  check(state !== null && state.coveredCount === summarizedTimestamps.size, `Checkpoint covers ${state?.coveredCount} messages`);
+  check(state !== null && state.coveredUntil === history[state.coveredCount - 1].timestamp, 'Checkpoint timestamp matches the last folded message');
+  const tierCount = state ? state.longRangeCount + state.segments.reduce((total, segment) => total + segment.messageCount, 0) : -1;
+  check(state !== null && tierCount === state.coveredCount, `Long-range (${state?.longRangeCount}) + segments (${state?.segments.length}) cover every summarized message`);
+  check(foldCalls.length > 0 && state?.longRange !== null, 'Old segments were folded into a long-range summary');
+
+  // TEST 3b: The debug breakdown shows the tier of each message
+  process.env.DEBUG = 'true';
+  const debugContext = await contextManager.buildContext(history, [], [], lastQuery);
+  process.env.DEBUG = 'false';
+  const debugInfo = debugContext.debugInfo ?? '';
+  check(
+    debugInfo.includes(', long-range]') && debugInfo.includes(', segment]') && debugInfo.includes(', recent]'),
+    'Debug breakdown labels long-range, segment and recent messages'
+  );
+
+  // TEST 4: A restored checkpoint rebuilds the same context without calling the summarizer
+  const before = await contextManager.buildContext(history, [], [], lastQuery);
+  const savedState = contextManager.exportSummaryState();
+  const restoredSummarizer = new FakeSummarizer();
+  const restored = new ContextManager({ summarizer: restoredSummarizer, compressionStrategy: 'summarize', allocator: null });
+  restored.importSummaryState(savedState);
+  const after = await restored.buildContext(history, [], [], lastQuery);
+  check(restoredSummarizer.calls.length === 0, 'Restored checkpoint needs no summarization call');
+  check(JSON.stringify(after.input) === JSON.stringify(before.input), 'Restored checkpoint renders the same context');
+
+  // TEST 5: A different history invalidates the checkpoint
+  restored.importSummaryState(savedState);
+  const otherHistory = history.map(m => ({ ...m, timestamp: m.timestamp + 1 }));
+  await restored.buildContext(otherHistory, [], [], lastQuery);
+  const otherState = restored.exportSummaryState();
+  check(otherState === null || otherState.coveredUntil !== savedState?.coveredUntil, 'Checkpoint from another history is discarded');
+
+  // TEST 6: Summaries over 64% of a shrunk budget leave less room than the low watermark:
+  // the messages that no longer fit are still evicted and summarized, never an empty batch
+  const shrinkSummarizer = new FakeSummarizer();
+  const strategy = new SummarizeStrategy('summarize', shrinkSummarizer);
+  const shortHistory = Array.from({ length: 10 }, (_, i) => makeTurn(i)).flat();
+  strategy.importState({
+    longRange: { role: 'system', content: '[Previous conversation summary: a large checkpoint]', timestamp: 0 },
+    longRangeCount: 4,
+    segments: [],
+    coveredCount: 4,
+    coveredUntil: shortHistory[3].timestamp
+  });
+  // Summaries count 700 tokens, messages 10: 16 uncovered messages (160 tokens) but only 100 left of 800
+  const countMessage = (message: Message) => (message.role === 'system' ? 700 : 10);
+  const errors: unknown[] = [];
+  const consoleError = console.error;
+  console.error = (...args: unknown[]) => errors.push(args);
+  const shrunk = await strategy.compress({ messages: shortHistory, budget: 800, query: lastQuery, countMessage });
+  console.error = consoleError;
+  check(errors.length === 0, `No summarization failure when the watermark keeps more than fits (${errors.length} errors)`);
+  check(
+    shrinkSummarizer.calls.length === 1 && shrinkSummarizer.calls[0].length === 6,
+    `The 6 messages that do not fit are summarized (got ${shrinkSummarizer.calls.map(batch => batch.length).join(', ') || 'no call'})`
+  );
+  check(strategy.exportState()?.coveredCount === 10 && shrunk.tokens <= 800, `The checkpoint covers 10 messages, the result fits (${shrunk.tokens} tokens)`);
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ ROLLING SUMMARY TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ ROLLING SUMMARY TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testRollingSummary().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
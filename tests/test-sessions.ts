@@ -0,0 +1,139 @@
+/**
+ * Test script for SESSIONS
+ * Deterministic, no API key needed: save, list, resume by id prefix, and invalid or legacy session files
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionStore } from '../src/services/session-store.js';
+import { Session } from '../src/types/index.js';
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function testSessions() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING SESSIONS');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+  const sessionsPath = path.join(tempDir, 'sessions');
+  const store = new SessionStore(sessionsPath);
+  const loadError = (idOrPrefix: string) => {
+    try {
+      store.load(idOrPrefix);
+      return '';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  // SAVE: the folder is created on the first save, the whole session round-trips
+  check(store.list().length === 0, 'No sessions before the folder exists');
+  const fresh = store.create();
+  check(/^session_\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}$/.test(fresh.id), `New sessions are named after their start time (${fresh.id})`);
+  check(fresh.messages.length === 0 && fresh.summary === null && fresh.turns.length === 0, 'A new session is empty');
+
+  const morning: Session = {
+    ...store.create(),
+    id: 'session_2024-05-01T09-00-00',
+    messages: [
+      { role: 'user', content: 'How do refunds work?', timestamp: 1 },
+      { role: 'assistant', content: 'Refunds take 14 days [doc_refunds].', timestamp: 2 }
+    ],
+    summary: {
+      longRange: null,
+      longRangeCount: 0,
+      segments: [{ summary: { role: 'system', content: 'Earlier: greetings.', timestamp: 0 }, messageCount: 2 }],
+      coveredCount: 2,
+      coveredUntil: 0
+    },
+    turns: [{
+      timestamp: 1, query: 'How do refunds work?', retrievalQuery: 'How do refunds work?', knowledgeIds: ['doc_refunds'],
+      memoryIds: [], historyMessages: 0, summarized: false, totalTokens: 120
+    }]
+  };
+  const createdAt = morning.updatedAt;
+  await pause(5);
+  store.save(morning);
+  check(fs.existsSync(path.join(sessionsPath, `${morning.id}.json`)), 'Saving writes one JSON file per session');
+  check(morning.updatedAt > createdAt, 'Saving refreshes updatedAt');
+  check(JSON.stringify(store.load(morning.id)) === JSON.stringify(morning), 'A saved session loads back unchanged');
+
+  // LIST: most recently updated first, previewing the first question
+  const afternoon: Session = { ...store.create(), id: 'session_2024-05-01T15-00-00' };
+  const nextDay: Session = {
+    ...store.create(),
+    id: 'session_2024-05-02T10-00-00',
+    messages: [{ role: 'user', content: 'Can I export my invoices as CSV files from the billing dashboard?', timestamp: 3 }]
+  };
+  await pause(5);
+  store.save(nextDay);
+  await pause(5);
+  store.save(afternoon);
+  const listed = store.list();
+  check(
+    listed.map(info => info.id).join() === [afternoon.id, nextDay.id, morning.id].join(),
+    `Sessions are listed by last update (got ${listed.map(info => info.id).join(', ')})`
+  );
+  check(listed[2].turns === 1 && listed[2].preview === 'How do refunds work?', 'The listing shows the turn count and the first question');
+  check(listed[1].preview.length === 60 && listed[0].preview === '(empty)', 'Previews are cut to 60 characters, empty sessions are marked');
+
+  // RESUME BY PREFIX: a unique prefix is enough, an ambiguous or unknown one is refused
+  check(store.load('session_2024-05-02').id === nextDay.id, 'A unique prefix resumes the session');
+  check(store.load(morning.id).id === morning.id, 'A full id resumes the session');
+  check(loadError('session_2024-05-01') === 'Session "session_2024-05-01" is ambiguous (2 matches)', 'An ambiguous prefix is refused');
+  check(loadError('session_2023') === 'Session "session_2023" not found', 'An unknown prefix is refused');
+
+  // INVALID FILES: refused on load, skipped by the listing
+  fs.writeFileSync(path.join(sessionsPath, 'session_broken.json'), '{"id": "session_broken"');
+  fs.writeFileSync(path.join(sessionsPath, 'session_invalid.json'), JSON.stringify({ id: 'session_invalid', messages: 'none' }));
+  check(loadError('session_invalid') === 'Session file session_invalid.json is invalid', 'A file without messages is refused');
+  check(loadError('session_broken') !== '', 'A file that is not valid JSON is refused');
+  check(store.list().length === 3, 'Unreadable files are skipped by the listing');
+  fs.rmSync(path.join(sessionsPath, 'session_broken.json'));
+  fs.rmSync(path.join(sessionsPath, 'session_invalid.json'));
+
+  // LEGACY FILES: a single rolling summary becomes the long-range tier, missing turns default to none
+  const legacySummary = { role: 'system', content: 'Earlier: the user asked about SSO.', timestamp: 4 };
+  fs.writeFileSync(path.join(sessionsPath, 'session_legacy.json'), JSON.stringify({
+    id: 'session_legacy',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    messages: [{ role: 'user', content: 'And for teams?', timestamp: 5 }],
+    summary: { summary: legacySummary, coveredCount: 6, coveredUntil: 4 }
+  }));
+  const legacy = store.load('session_legacy');
+  check(
+    JSON.stringify(legacy.summary) === JSON.stringify({ longRange: legacySummary, longRangeCount: 6, segments: [], coveredCount: 6, coveredUntil: 4 }),
+    'A legacy rolling summary is converted to the long-range tier'
+  );
+  check(Array.isArray(legacy.turns) && legacy.turns.length === 0, 'A legacy file without turn metadata gets an empty list');
+  fs.writeFileSync(path.join(sessionsPath, 'session_bare.json'), JSON.stringify({ id: 'session_bare', messages: [] }));
+  check(store.load('session_bare').summary === null, 'A file without a summary loads with none');
+  fs.writeFileSync(path.join(sessionsPath, 'session_odd.json'), JSON.stringify({ id: 'session_odd', messages: [], summary: { coveredCount: 'all' } }));
+  check(loadError('session_odd') === 'Session file session_odd.json has an invalid summary', 'A summary in neither format is refused');
+
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ SESSIONS TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ SESSIONS TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testSessions().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+/**
+ * Test script for the COMPRESSION STRATEGY REGISTRY
+ * Deterministic, no API key needed: registering strategies, "a+b" chains, unknown names,
+ * and the API summarizer only being created when "summarize" is selected
+ */
+
+import {
+  CompositeStrategy,
+  CompressionRequest,
+  CompressionStrategy,
+  CompressionStrategyRegistry,
+  PruneStrategy
+} from '../src/services/compression-strategies.js';
+import { ContextManager } from '../src/services/context-manager.js';
+import { Message } from '../src/types/index.js';
+
+// Keeps only the last message
+const lastMessage: CompressionStrategy = {
+  name: 'last-message',
+  async compress({ messages, countMessage }: CompressionRequest) {
+    const kept = messages.slice(-1);
+    return { messages: kept, tokens: kept.reduce((sum, m) => sum + countMessage(m), 0), metadata: { strategy: 'last-message', notes: [] } };
+  }
+};
+
+async function testStrategyRegistry() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING COMPRESSION STRATEGY REGISTRY');
+  console.log('='.repeat(70) + '\n');
+
+  let passed = true;
+  const check = (condition: boolean, message: string) => {
+    console.log(`${condition ? '✅' : '❌'} ${message}`);
+    passed = passed && condition;
+  };
+  const errorOf = (action: () => unknown) => {
+    try {
+      action();
+      return '';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  // Strategies must not need credentials unless "summarize" is used
+  const apiKey = process.env.OPENAI_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+
+  // DEFAULTS: built-ins in a stable order, created without an API key
+  const registry = CompressionStrategyRegistry.createDefault();
+  check(registry.names().join() === 'prune,summarize,extractive,relevance', `Built-in strategies are registered (got ${registry.names().join(', ')})`);
+  check(registry.get('prune') instanceof PruneStrategy, 'A registered name returns its strategy');
+  check(registry.get('extractive') === registry.get('extractive'), 'The same instance is returned each time (its state is shared)');
+
+  // REGISTER: custom strategies by name, replacing a previous one, "+" refused in names
+  registry.register(lastMessage);
+  check(registry.get('last-message') === lastMessage && registry.names().includes('last-message'), 'A custom strategy is registered by its name');
+  const replacement: CompressionStrategy = { ...lastMessage };
+  registry.register(replacement);
+  check(registry.get('last-message') === replacement && registry.names().filter(n => n === 'last-message').length === 1, 'Registering a name again replaces it');
+  check(
+    errorOf(() => registry.register({ ...lastMessage, name: 'a+b' })) === 'Invalid strategy name "a+b": "+" joins composite strategies',
+    'A name containing "+" is refused'
+  );
+
+  // CHAINS: "a+b" builds a composite from registered strategies, spaces around "+" allowed
+  const chain = registry.get('relevance + prune');
+  check(chain instanceof CompositeStrategy && chain.name === 'relevance+prune', `"relevance + prune" builds a composite (got ${chain.name})`);
+  const history: Message[] = [
+    { role: 'user', content: 'First question', timestamp: 1 },
+    { role: 'assistant', content: 'First answer', timestamp: 2 },
+    { role: 'user', content: 'Second question', timestamp: 3 },
+    { role: 'assistant', content: 'Second answer', timestamp: 4 }
+  ];
+  const compress = (name: string, budget: number) => registry.get(name).compress({ messages: history, budget, query: 'second', countMessage: () => 10 });
+  // Relevance always keeps the latest exchange (20 tokens), even over a budget of 15
+  const chained = await compress('relevance+last-message', 15);
+  check(chained.messages.length === 1 && chained.messages[0] === history[3], 'The next step compresses a result that is still over budget');
+  const fitting = await compress('relevance+last-message', 40);
+  check(fitting.messages.length === 4, 'The next step is skipped when the result fits');
+
+  // UNKNOWN NAMES: refused with the available names
+  check(
+    errorOf(() => registry.get('fifo')) === 'Unknown compression strategy "fifo" (available: prune, summarize, extractive, relevance, last-message)',
+    'An unknown name is refused with the list of strategies'
+  );
+  check(errorOf(() => registry.get('prune+fifo+lifo')).startsWith('Unknown compression strategy "fifo", "lifo"'), 'Every unknown step of a chain is reported');
+
+  // LAZY STRATEGIES: built on first use, then reused
+  let created = 0;
+  const lazy = new CompressionStrategyRegistry();
+  lazy.registerLazy('counted', () => {
+    created++;
+    return { ...lastMessage, name: 'counted' };
+  });
+  check(created === 0 && lazy.names().join() === 'counted', 'A lazy strategy is listed without being created');
+  const first = lazy.get('counted');
+  check(created === 1 && lazy.get('counted') === first, 'A lazy strategy is created once, when first selected');
+
+  // No API summarizer (and no "Missing credentials") unless "summarize" is selected
+  check(errorOf(() => new ContextManager({ compressionStrategy: 'relevance+prune', allocator: null })) === '', 'A context manager without "summarize" needs no API key');
+  check(errorOf(() => CompressionStrategyRegistry.createDefault().get('summarize')) !== '', 'Selecting "summarize" creates the API summarizer (which needs the key)');
+
+  if (apiKey !== undefined) {
+    process.env.OPENAI_API_KEY = apiKey;
+  }
+
+  console.log('\n' + '='.repeat(70));
+  if (!passed) {
+    console.log('❌ COMPRESSION STRATEGY REGISTRY TEST FAILED');
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ COMPRESSION STRATEGY REGISTRY TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testStrategyRegistry().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+/**
+ * Test script for TOKENIZER
+ * Compares local BPE token counts against reference counts from tiktoken
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { BpeTokenizer, BpeEncodingName, HeuristicTokenizer, getEncodingForModel } from '../src/utils/tokenizer.js';
+import { TokenCounter } from '../src/utils/token-counter.js';
+import { CONFIG } from '../src/config.js';
+
+// Reference counts produced by tiktoken (encode_ordinary) for each sample
+const SAMPLES: Array<{ text: string; expected: Record<BpeEncodingName, number> }> = [
+  { text: 'Hello, world!', expected: { cl100k_base: 4, o200k_base: 4 } },
+  { text: 'Acme Systems operates on a subscription based pricing model.', expected: { cl100k_base: 11, o200k_base: 11 } },
+  { text: 'function add(a: number, b: number): number {\n  return a + b;\n}', expected: { cl100k_base: 19, o200k_base: 19 } },
+  { text: '{"id": "doc_5", "title": "Billing and Subscriptions", "tags": ["billing"]}', expected: { cl100k_base: 23, o200k_base: 24 } },
+  { text: "I'm sure they'll say we've DONE it, haven't they?", expected: { cl100k_base: 15, o200k_base: 11 } },
+  { text: 'Les données sont chiffrées au repos et en transit.', expected: { cl100k_base: 13, o200k_base: 13 } },
+  { text: '数据在静态和传输过程中都经过加密。', expected: { cl100k_base: 17, o200k_base: 13 } },
+  { text: 'Order #12345 costs $1,299.99 (incl. 20% VAT) 🚀🚀', expected: { cl100k_base: 25, o200k_base: 23 } },
+  { text: '    indented line\n\n\n\ttabbed   spaces   ', expected: { cl100k_base: 10, o200k_base: 10 } }
+];
+
+async function testTokenizer() {
+  console.log('\n' + '='.repeat(70));
+  console.log('TESTING TOKENIZER');
+  console.log('='.repeat(70) + '\n');
+
+  let failures = 0;
+
+  // ========================================================================
+  // TEST 1: Model to encoding mapping
+  // ========================================================================
+  console.log('─'.repeat(70));
+  console.log('TEST 1: Model to Encoding Mapping');
+  console.log('─'.repeat(70) + '\n');
+
+  const models: Array<[string, BpeEncodingName]> = [
+    ['gpt-4o-mini', 'o200k_base'],
+    ['gpt-4o', 'o200k_base'],
+    ['gpt-4-turbo', 'cl100k_base'],
+    ['gpt-3.5-turbo', 'cl100k_base']
+  ];
+
+  for (const [model, expected] of models) {
+    const actual = getEncodingForModel(model);
+    const ok = actual === expected;
+    if (!ok) failures++;
+    console.log(`   ${ok ? '✅' : '❌'} ${model} → ${actual}${ok ? '' : ` (expected ${expected})`}`);
+  }
+  console.log();
+
+  // ========================================================================
+  // TEST 2: BPE counts against reference counts
+  // ========================================================================
+  console.log('─'.repeat(70));
+  console.log('TEST 2: BPE Counts vs Reference Counts');
+  console.log('─'.repeat(70) + '\n');
+
+  const encodings: BpeEncodingName[] = ['cl100k_base', 'o200k_base'];
+
+  for (const encoding of encodings) {
+    const vocabPath = join(CONFIG.TOKENIZER_VOCAB_DIR, `${encoding}.tiktoken`);
+    if (!existsSync(vocabPath)) {
+      console.log(`⚠️  Skipping ${encoding}: vocab file not found at ${vocabPath}\n`);
+      continue;
+    }
+
+    const tokenizer = BpeTokenizer.fromFile(encoding, vocabPath);
+    console.log(`🔤 ${encoding}`);
+
+    for (const sample of SAMPLES) {
+      const actual = tokenizer.count(sample.text);
+      const expected = sample.expected[encoding];
+      const ok = actual === expected;
+      if (!ok) failures++;
+
+      const preview = sample.text.replace(/\n/g, '\\n').substring(0, 45);
+      console.log(`   ${ok ? '✅' : '❌'} "${preview}" = ${actual} tokens (reference: ${expected})`);
+    }
+
+    // Heuristic drift for the same samples, for comparison
+    const heuristic = new HeuristicTokenizer();
+    const bpeTotal = SAMPLES.reduce((sum, s) => sum + s.expected[encoding], 0);
+    const heuristicTotal = SAMPLES.reduce((sum, s) => sum + heuristic.count(s.text), 0);
+    console.log(`   📊 Heuristic estimate: ${heuristicTotal} vs reference ${bpeTotal} tokens\n`);
+  }
+
+  // ========================================================================
+  // TEST 3: TokenCounter goes through the active tokenizer
+  // ========================================================================
+  console.log('─'.repeat(70));
+  console.log('TEST 3: TokenCounter Uses Active Tokenizer');
+  console.log('─'.repeat(70) + '\n');
+
+  console.log(`   Active tokenizer: ${TokenCounter.getTokenizer().name}`);
+
+  TokenCounter.setTokenizer(new HeuristicTokenizer());
+  const contentCount = ['12345678', '1234'].reduce((total, text) => total + TokenCounter.countText(text), 0);
+  const contentOk = contentCount === 3;
+  if (!contentOk) failures++;
+  console.log(`   ${contentOk ? '✅' : '❌'} Heuristic tokenizer: 12 characters in 2 messages = ${contentCount} tokens (expected 3)`);
+
+  const knowledgeCount = TokenCounter.countKnowledgeEntries([
+    { id: 'a', title: '1234567', content: '12345678' },
+    { id: 'b', title: '123', content: '1234' }
+  ]);
+  const knowledgeOk = knowledgeCount === 6;
+  if (!knowledgeOk) failures++;
+  console.log(`   ${knowledgeOk ? '✅' : '❌'} Heuristic tokenizer: 16 + 8 characters in 2 entries = ${knowledgeCount} tokens (expected 6)\n`);
+
+  // ========================================================================
+  // TEST 4: Chat framing (role + per-message overhead, reply priming)
+  // ========================================================================
+  console.log('─'.repeat(70));
+  console.log('TEST 4: Chat Message Framing');
+  console.log('─'.repeat(70) + '\n');
+
+  const messages = [
+    { role: 'user' as const, content: '12345678' },      // 'user' = 1 token, content = 2 tokens
+    { role: 'assistant' as const, content: '1234' }      // 'assistant' = 3 tokens, content = 1 token
+  ];
+  const framing: Array<[string, number, number]> = [
+    ['Single message: overhead 3 + role 1 + content 2', TokenCounter.countMessage(messages[0]), 6],
+    ['2 messages: content 3 + roles 4 + overhead 2 × 3', TokenCounter.countMessages(messages), 13],
+    ['Chat request: 2 messages + reply priming 3', TokenCounter.countChat(messages), 16],
+    ['Empty chat request: reply priming only', TokenCounter.countChat([]), TokenCounter.REPLY_PRIMING]
+  ];
+
+  for (const [label, actual, expected] of framing) {
+    const ok = actual === expected;
+    if (!ok) failures++;
+    console.log(`   ${ok ? '✅' : '❌'} ${label} = ${actual} tokens (expected ${expected})`);
+  }
+  console.log();
+
+  console.log('='.repeat(70));
+  if (failures > 0) {
+    console.log(`❌ TOKENIZER TEST FAILED (${failures} mismatches)`);
+    console.log('='.repeat(70) + '\n');
+    process.exit(1);
+  }
+  console.log('✅ TOKENIZER TEST COMPLETED');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Run test
+testTokenizer().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});